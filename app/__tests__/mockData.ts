@@ -0,0 +1,20 @@
+import { cloneEmptyMetrics } from "@/stores/metrics";
+import type { SetItem, Song } from "@/stores/types";
+
+/**
+ * A song for tests; its title doubles as its id.
+ */
+export function createMockSong(title: string, extra: Partial<Song> = {}): Song {
+  return { id: title, title, ...extra };
+}
+
+/**
+ * A set for tests, with empty metrics.
+ */
+export function createMockSet(
+  id: string,
+  songs: Song[] = [],
+  extra: Partial<SetItem> = {},
+): SetItem {
+  return { id, songs, metrics: cloneEmptyMetrics(), ...extra };
+}
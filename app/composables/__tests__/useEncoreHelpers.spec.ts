@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { ref, computed } from 'vue'
+import { ref } from 'vue'
 import { useEncoreHelpers } from '@/composables/useEncoreHelpers'
-import type { SetItem, Song } from '@/stores/store'
+import type { SetItem, Song } from '@/stores/types'
 
 // Helper to create a mock set
 function createMockSet(songs: Song[] = []): SetItem {
@@ -32,9 +32,9 @@ function createMockSong(
 }
 
 // Helper to create an encore marker
-function createEncoreMarker(): Song {
+function createEncoreMarker(id = 'encore-marker-id'): Song {
   return {
-    id: 'encore-marker-id',
+    id,
     title: '<encore>',
     isEncoreMarker: true
   }
@@ -42,24 +42,11 @@ function createEncoreMarker(): Song {
 
 describe('useEncoreHelpers', () => {
   describe('markerIndex', () => {
-    it('should return -1 when not the last set', () => {
-      const set = ref(
-        createMockSet([
-          createMockSong('Song 1'),
-          createEncoreMarker(),
-          createMockSong('Song 2')
-        ])
-      )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(false) })
-
-      expect(markerIndex.value).toBe(-1)
-    })
-
     it('should return -1 when no encore marker exists', () => {
       const set = ref(
         createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
       )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { markerIndex } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(-1)
     })
@@ -72,7 +59,7 @@ describe('useEncoreHelpers', () => {
           createMockSong('Song 2')
         ])
       )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { markerIndex } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(1)
     })
@@ -85,7 +72,7 @@ describe('useEncoreHelpers', () => {
           createMockSong('Song 2')
         ])
       )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { markerIndex } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(0)
     })
@@ -98,46 +85,18 @@ describe('useEncoreHelpers', () => {
           createEncoreMarker()
         ])
       )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { markerIndex } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(2)
     })
-
-    it('should support boolean isLast parameter', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker()])
-      )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: true })
-
-      expect(markerIndex.value).toBe(1)
-    })
-
-    it('should support computed isLast parameter', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker()])
-      )
-      const isLast = computed(() => true)
-      const { markerIndex } = useEncoreHelpers({ set, isLast })
-
-      expect(markerIndex.value).toBe(1)
-    })
   })
 
   describe('hasEncoreMarker', () => {
-    it('should return false when not the last set', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker()])
-      )
-      const { hasEncoreMarker } = useEncoreHelpers({ set, isLast: ref(false) })
-
-      expect(hasEncoreMarker.value).toBe(false)
-    })
-
     it('should return false when no encore marker', () => {
       const set = ref(
         createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
       )
-      const { hasEncoreMarker } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { hasEncoreMarker } = useEncoreHelpers({ set })
 
       expect(hasEncoreMarker.value).toBe(false)
     })
@@ -150,65 +109,18 @@ describe('useEncoreHelpers', () => {
           createMockSong('Song 2')
         ])
       )
-      const { hasEncoreMarker } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { hasEncoreMarker } = useEncoreHelpers({ set })
 
       expect(hasEncoreMarker.value).toBe(true)
     })
   })
 
-  describe('markerIsLast', () => {
-    it('should return false when no encore marker', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
-      )
-      const { markerIsLast } = useEncoreHelpers({ set, isLast: ref(true) })
-
-      expect(markerIsLast.value).toBe(false)
-    })
-
-    it('should return false when encore marker is not last', () => {
-      const set = ref(
-        createMockSet([
-          createMockSong('Song 1'),
-          createEncoreMarker(),
-          createMockSong('Song 2')
-        ])
-      )
-      const { markerIsLast } = useEncoreHelpers({ set, isLast: ref(true) })
-
-      expect(markerIsLast.value).toBe(false)
-    })
-
-    it('should return true when encore marker is at the end', () => {
-      const set = ref(
-        createMockSet([
-          createMockSong('Song 1'),
-          createMockSong('Song 2'),
-          createEncoreMarker()
-        ])
-      )
-      const { markerIsLast } = useEncoreHelpers({ set, isLast: ref(true) })
-
-      expect(markerIsLast.value).toBe(true)
-    })
-
-    it('should return true when encore marker is the only song', () => {
-      const set = ref(createMockSet([createEncoreMarker()]))
-      const { markerIsLast } = useEncoreHelpers({ set, isLast: ref(true) })
-
-      expect(markerIsLast.value).toBe(true)
-    })
-  })
-
   describe('firstEncoreSongId', () => {
     it('should return null when no encore marker', () => {
       const set = ref(
         createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
       )
-      const { firstEncoreSongId } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { firstEncoreSongId } = useEncoreHelpers({ set })
 
       expect(firstEncoreSongId.value).toBe(null)
     })
@@ -221,10 +133,7 @@ describe('useEncoreHelpers', () => {
           createEncoreMarker()
         ])
       )
-      const { firstEncoreSongId } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { firstEncoreSongId } = useEncoreHelpers({ set })
 
       expect(firstEncoreSongId.value).toBe(null)
     })
@@ -238,30 +147,10 @@ describe('useEncoreHelpers', () => {
           encoreSong
         ])
       )
-      const { firstEncoreSongId } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { firstEncoreSongId } = useEncoreHelpers({ set })
 
       expect(firstEncoreSongId.value).toBe('encore-song-1')
     })
-
-    it('should return null when not the last set', () => {
-      const encoreSong = createMockSong('Encore Song', { id: 'encore-song-1' })
-      const set = ref(
-        createMockSet([
-          createMockSong('Song 1'),
-          createEncoreMarker(),
-          encoreSong
-        ])
-      )
-      const { firstEncoreSongId } = useEncoreHelpers({
-        set,
-        isLast: ref(false)
-      })
-
-      expect(firstEncoreSongId.value).toBe(null)
-    })
   })
 
   describe('songsWithoutMarker', () => {
@@ -269,10 +158,7 @@ describe('useEncoreHelpers', () => {
       const song1 = createMockSong('Song 1')
       const song2 = createMockSong('Song 2')
       const set = ref(createMockSet([song1, song2]))
-      const { songsWithoutMarker } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { songsWithoutMarker } = useEncoreHelpers({ set })
 
       expect(songsWithoutMarker.value).toHaveLength(2)
       expect(songsWithoutMarker.value[0]!.title).toBe('Song 1')
@@ -283,10 +169,7 @@ describe('useEncoreHelpers', () => {
       const song1 = createMockSong('Song 1')
       const song2 = createMockSong('Song 2')
       const set = ref(createMockSet([song1, createEncoreMarker(), song2]))
-      const { songsWithoutMarker } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { songsWithoutMarker } = useEncoreHelpers({ set })
 
       expect(songsWithoutMarker.value).toHaveLength(2)
       expect(songsWithoutMarker.value[0]!.title).toBe('Song 1')
@@ -295,40 +178,24 @@ describe('useEncoreHelpers', () => {
 
     it('should return empty array for set with only encore marker', () => {
       const set = ref(createMockSet([createEncoreMarker()]))
-      const { songsWithoutMarker } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { songsWithoutMarker } = useEncoreHelpers({ set })
 
       expect(songsWithoutMarker.value).toHaveLength(0)
     })
 
     it('should return empty array for empty set', () => {
       const set = ref(createMockSet([]))
-      const { songsWithoutMarker } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { songsWithoutMarker } = useEncoreHelpers({ set })
 
       expect(songsWithoutMarker.value).toHaveLength(0)
     })
   })
 
   describe('isEncoreSong', () => {
-    it('should return false when not the last set', () => {
-      const song = createMockSong('Encore Song', { id: 'song-1' })
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker(), song])
-      )
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(false) })
-
-      expect(isEncoreSong(song)).toBe(false)
-    })
-
     it('should return false when no encore marker', () => {
       const song = createMockSong('Song 2', { id: 'song-2' })
       const set = ref(createMockSet([createMockSong('Song 1'), song]))
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { isEncoreSong } = useEncoreHelpers({ set })
 
       expect(isEncoreSong(song)).toBe(false)
     })
@@ -337,7 +204,7 @@ describe('useEncoreHelpers', () => {
       const song1 = createMockSong('Song 1', { id: 'song-1' })
       const song2 = createMockSong('Song 2', { id: 'song-2' })
       const set = ref(createMockSet([song1, createEncoreMarker(), song2]))
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { isEncoreSong } = useEncoreHelpers({ set })
 
       expect(isEncoreSong(song1)).toBe(false)
     })
@@ -346,7 +213,7 @@ describe('useEncoreHelpers', () => {
       const song1 = createMockSong('Song 1', { id: 'song-1' })
       const song2 = createMockSong('Song 2', { id: 'song-2' })
       const set = ref(createMockSet([song1, createEncoreMarker(), song2]))
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { isEncoreSong } = useEncoreHelpers({ set })
 
       expect(isEncoreSong(song2)).toBe(true)
     })
@@ -358,7 +225,7 @@ describe('useEncoreHelpers', () => {
       const set = ref(
         createMockSet([song1, createEncoreMarker(), song2, song3])
       )
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { isEncoreSong } = useEncoreHelpers({ set })
 
       expect(isEncoreSong(song2)).toBe(true)
       expect(isEncoreSong(song3)).toBe(true)
@@ -373,7 +240,7 @@ describe('useEncoreHelpers', () => {
           createMockSong('Song 2')
         ])
       )
-      const { isEncoreSong } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { isEncoreSong } = useEncoreHelpers({ set })
 
       // The marker is at its own index, not after itself
       expect(isEncoreSong(marker)).toBe(false)
@@ -381,7 +248,16 @@ describe('useEncoreHelpers', () => {
   })
 
   describe('isEncoreSongByIndex', () => {
-    it('should return false when not the last set', () => {
+    it('should return false when no encore marker', () => {
+      const set = ref(
+        createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
+      )
+      const { isEncoreSongByIndex } = useEncoreHelpers({ set })
+
+      expect(isEncoreSongByIndex(1)).toBe(false)
+    })
+
+    it('should return false for indices before encore marker', () => {
       const set = ref(
         createMockSet([
           createMockSong('Song 1'),
@@ -389,73 +265,149 @@ describe('useEncoreHelpers', () => {
           createMockSong('Song 2')
         ])
       )
-      const { isEncoreSongByIndex } = useEncoreHelpers({
-        set,
-        isLast: ref(false)
-      })
+      const { isEncoreSongByIndex } = useEncoreHelpers({ set })
 
-      expect(isEncoreSongByIndex(2)).toBe(false)
+      expect(isEncoreSongByIndex(0)).toBe(false)
     })
 
-    it('should return false when no encore marker', () => {
+    it('should return false for the encore marker index', () => {
       const set = ref(
-        createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
+        createMockSet([
+          createMockSong('Song 1'),
+          createEncoreMarker(),
+          createMockSong('Song 2')
+        ])
       )
-      const { isEncoreSongByIndex } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { isEncoreSongByIndex } = useEncoreHelpers({ set })
 
       expect(isEncoreSongByIndex(1)).toBe(false)
     })
 
-    it('should return false for indices before encore marker', () => {
+    it('should return true for indices after encore marker', () => {
       const set = ref(
         createMockSet([
           createMockSong('Song 1'),
           createEncoreMarker(),
-          createMockSong('Song 2')
+          createMockSong('Song 2'),
+          createMockSong('Song 3')
+        ])
+      )
+      const { isEncoreSongByIndex } = useEncoreHelpers({ set })
+
+      expect(isEncoreSongByIndex(2)).toBe(true)
+      expect(isEncoreSongByIndex(3)).toBe(true)
+    })
+  })
+
+  describe('multiple encores', () => {
+    it('should label a single encore break "Encores"', () => {
+      const set = ref(
+        createMockSet([
+          createMockSong('Song 1'),
+          createEncoreMarker(),
+          createMockSong('Song 2', { id: 'song-2' })
         ])
       )
-      const { isEncoreSongByIndex } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
+      const { encoreBreaks } = useEncoreHelpers({ set })
+
+      expect(encoreBreaks.value).toEqual([
+        { markerId: 'encore-marker-id', label: 'Encores', firstSongId: 'song-2' }
+      ])
+    })
+
+    it('should number several encore breaks', () => {
+      const set = ref(
+        createMockSet([
+          createMockSong('Song 1'),
+          createEncoreMarker('marker-1'),
+          createMockSong('Song 2', { id: 'song-2' }),
+          createEncoreMarker('marker-2'),
+          createMockSong('Song 3', { id: 'song-3' })
+        ])
+      )
+      const { encoreBreaks, encoreDividers } = useEncoreHelpers({ set })
+
+      expect(encoreBreaks.value.map(({ label }) => label)).toEqual([
+        'Encore 1',
+        'Encore 2'
+      ])
+      expect(encoreDividers.value.get('song-2')).toBe('Encore 1')
+      expect(encoreDividers.value.get('song-3')).toBe('Encore 2')
+    })
+
+    it('should leave out a divider for a marker with no song after it', () => {
+      const set = ref(
+        createMockSet([
+          createMockSong('Song 1'),
+          createEncoreMarker('marker-1'),
+          createMockSong('Song 2', { id: 'song-2' }),
+          createEncoreMarker('marker-2')
+        ])
+      )
+      const { encoreBreaks, encoreDividers } = useEncoreHelpers({ set })
+
+      expect(encoreBreaks.value[1]?.firstSongId).toBeUndefined()
+      expect(encoreDividers.value.size).toBe(1)
+    })
+
+    it('should treat every song after the first marker as an encore', () => {
+      const set = ref(
+        createMockSet([
+          createMockSong('Song 1'),
+          createEncoreMarker('marker-1'),
+          createMockSong('Song 2'),
+          createEncoreMarker('marker-2'),
+          createMockSong('Song 3')
+        ])
+      )
+      const { isEncoreSongByIndex, firstEncoreSongId } = useEncoreHelpers({
+        set
       })
 
       expect(isEncoreSongByIndex(0)).toBe(false)
+      expect(isEncoreSongByIndex(2)).toBe(true)
+      expect(isEncoreSongByIndex(3)).toBe(false)
+      expect(isEncoreSongByIndex(4)).toBe(true)
+      expect(firstEncoreSongId.value).toBe(set.value.songs[2]?.id)
     })
+  })
 
-    it('should return false for the encore marker index', () => {
+  describe('section markers', () => {
+    it('should leave section markers out of the songs', () => {
       const set = ref(
         createMockSet([
+          { id: 'section-1', title: 'Acoustic', isSectionMarker: true },
           createMockSong('Song 1'),
           createEncoreMarker(),
           createMockSong('Song 2')
         ])
       )
-      const { isEncoreSongByIndex } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
+      const { songsWithoutMarker, isEncoreSongByIndex } = useEncoreHelpers({
+        set
       })
 
-      expect(isEncoreSongByIndex(1)).toBe(false)
+      expect(songsWithoutMarker.value.map(song => song.title)).toEqual([
+        'Song 1',
+        'Song 2'
+      ])
+      expect(isEncoreSongByIndex(0)).toBe(false)
     })
 
-    it('should return true for indices after encore marker', () => {
+    it('should find the first encore song past a section marker', () => {
       const set = ref(
         createMockSet([
           createMockSong('Song 1'),
           createEncoreMarker(),
-          createMockSong('Song 2'),
-          createMockSong('Song 3')
+          { id: 'section-1', title: 'Medley', isSectionMarker: true },
+          createMockSong('Song 2', { id: 'song-2' })
         ])
       )
-      const { isEncoreSongByIndex } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
+      const { firstEncoreSongId, isEncoreSongByIndex } = useEncoreHelpers({
+        set
       })
 
-      expect(isEncoreSongByIndex(2)).toBe(true)
+      expect(firstEncoreSongId.value).toBe('song-2')
+      expect(isEncoreSongByIndex(2)).toBe(false)
       expect(isEncoreSongByIndex(3)).toBe(true)
     })
   })
@@ -465,7 +417,7 @@ describe('useEncoreHelpers', () => {
       const set = ref(
         createMockSet([createMockSong('Song 1'), createMockSong('Song 2')])
       )
-      const { markerIndex } = useEncoreHelpers({ set, isLast: ref(true) })
+      const { markerIndex } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(-1)
 
@@ -479,26 +431,9 @@ describe('useEncoreHelpers', () => {
       expect(markerIndex.value).toBe(1)
     })
 
-    it('should update hasEncoreMarker when isLast changes', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker()])
-      )
-      const isLast = ref(true)
-      const { hasEncoreMarker } = useEncoreHelpers({ set, isLast })
-
-      expect(hasEncoreMarker.value).toBe(true)
-
-      isLast.value = false
-
-      expect(hasEncoreMarker.value).toBe(false)
-    })
-
     it('should update songsWithoutMarker when songs change', () => {
       const set = ref(createMockSet([createMockSong('Song 1')]))
-      const { songsWithoutMarker } = useEncoreHelpers({
-        set,
-        isLast: ref(true)
-      })
+      const { songsWithoutMarker } = useEncoreHelpers({ set })
 
       expect(songsWithoutMarker.value).toHaveLength(1)
 
@@ -516,7 +451,7 @@ describe('useEncoreHelpers', () => {
     it('should handle empty set', () => {
       const set = ref(createMockSet([]))
       const { markerIndex, hasEncoreMarker, songsWithoutMarker } =
-        useEncoreHelpers({ set, isLast: ref(true) })
+        useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(-1)
       expect(hasEncoreMarker.value).toBe(false)
@@ -528,29 +463,14 @@ describe('useEncoreHelpers', () => {
       const {
         markerIndex,
         hasEncoreMarker,
-        markerIsLast,
         songsWithoutMarker,
         firstEncoreSongId
-      } = useEncoreHelpers({ set, isLast: ref(true) })
+      } = useEncoreHelpers({ set })
 
       expect(markerIndex.value).toBe(0)
       expect(hasEncoreMarker.value).toBe(true)
-      expect(markerIsLast.value).toBe(true)
       expect(songsWithoutMarker.value).toHaveLength(0)
       expect(firstEncoreSongId.value).toBe(null)
     })
-
-    it('should handle boolean false for isLast', () => {
-      const set = ref(
-        createMockSet([createMockSong('Song 1'), createEncoreMarker()])
-      )
-      const { markerIndex, hasEncoreMarker } = useEncoreHelpers({
-        set,
-        isLast: false
-      })
-
-      expect(markerIndex.value).toBe(-1)
-      expect(hasEncoreMarker.value).toBe(false)
-    })
   })
 })
@@ -3,9 +3,12 @@ import { createPinia, setActivePinia } from 'pinia'
 import {
   useFileOperations,
   _resetFileState,
-  _generateCopyFilename
+  _generateCopyFilename,
+  _mergeRecentFile,
+  type RecentFile
 } from '@/composables/useFileOperations'
 import { useSetlistStore } from '@/stores/store'
+import { CURRENT_SCHEMA_VERSION } from '@/utils/schemaMigration'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const windowAny = window as any
@@ -120,6 +123,47 @@ describe('useFileOperations', () => {
     })
   })
 
+  describe('mergeRecentFile', () => {
+    function createRecentFile(id: string, openedAt: number): RecentFile {
+      return {
+        id,
+        name: `${id}.json`,
+        handle: { name: `${id}.json` } as FileSystemFileHandle,
+        openedAt
+      }
+    }
+
+    it('should put the new file first and keep the rest newest first', () => {
+      const { files, dropped } = _mergeRecentFile(
+        [createRecentFile('a', 1), createRecentFile('b', 2)],
+        createRecentFile('c', 3),
+        8
+      )
+      expect(files.map(file => file.id)).toEqual(['c', 'b', 'a'])
+      expect(dropped).toEqual([])
+    })
+
+    it('should move an existing file to the top instead of duplicating it', () => {
+      const { files } = _mergeRecentFile(
+        [createRecentFile('a', 1), createRecentFile('b', 2)],
+        createRecentFile('a', 3),
+        8
+      )
+      expect(files.map(file => file.id)).toEqual(['a', 'b'])
+      expect(files[0]?.openedAt).toBe(3)
+    })
+
+    it('should drop the oldest files past the limit', () => {
+      const { files, dropped } = _mergeRecentFile(
+        [createRecentFile('a', 1), createRecentFile('b', 2)],
+        createRecentFile('c', 3),
+        2
+      )
+      expect(files.map(file => file.id)).toEqual(['c', 'b'])
+      expect(dropped.map(file => file.id)).toEqual(['a'])
+    })
+  })
+
   describe('initialization', () => {
     it('should return all expected properties', () => {
       const ops = useFileOperations()
@@ -758,7 +802,7 @@ describe('useFileOperations', () => {
         expect(store.state.metadata.setListName).toBe('Legacy Show')
         expect(store.state.sets[0]!.songs[0]!.title).toBe('Legacy Song')
         // Schema version should be added
-        expect(store.state.schemaVersion).toBe(1)
+        expect(store.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
       })
 
       it('should handle data that already has schemaVersion', async () => {
@@ -799,7 +843,7 @@ describe('useFileOperations', () => {
 
         expect(store.state.metadata.setListName).toBe('Current Show')
         expect(store.state.sets[0]!.songs[0]!.title).toBe('Current Song')
-        expect(store.state.schemaVersion).toBe(1)
+        expect(store.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
       })
     })
   })
@@ -970,7 +1014,7 @@ describe('useFileOperations', () => {
 
       expect(store.state.metadata.setListName).toBe('Legacy Fallback Show')
       expect(store.state.sets[0]!.songs[0]!.title).toBe('Legacy Song')
-      expect(store.state.schemaVersion).toBe(1)
+      expect(store.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
     })
 
     it('should handle data that already has schemaVersion (fallback)', async () => {
@@ -1010,7 +1054,7 @@ describe('useFileOperations', () => {
 
       expect(store.state.metadata.setListName).toBe('Current Fallback Show')
       expect(store.state.sets[0]!.songs[0]!.title).toBe('Current Song')
-      expect(store.state.schemaVersion).toBe(1)
+      expect(store.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
     })
   })
 
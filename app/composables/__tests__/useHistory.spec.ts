@@ -34,7 +34,10 @@ describe('useHistory', () => {
       setListName: '',
       venue: '',
       date: '',
-      actName: ''
+      actName: '',
+      startTime: '',
+      curfew: '',
+      gigId: ''
     }
 
     // Mark as clean after setup
@@ -517,6 +520,52 @@ describe('useHistory', () => {
       expect(store.state.sets[0]!.songs[0]!.key).toBe('C')
     })
 
+    it('should undo marking a song as optional', async () => {
+      const { undo, clearHistory } = useHistory()
+
+      store.addSongToSet(store.state.sets[0]!.id, { title: 'Deep Cut', key: 'E' })
+      await nextTick()
+
+      clearHistory()
+
+      const songId = store.state.sets[0]!.songs[0]!.id
+      store.updateSong(store.state.sets[0]!.id, songId, { isOptional: true })
+      await nextTick()
+
+      expect(store.state.sets[0]!.songs[0]!.isOptional).toBe(true)
+
+      undo()
+      await nextTick()
+
+      expect(store.state.sets[0]!.songs[0]!.isOptional).toBeUndefined()
+    })
+
+    it('should undo a whole-list transpose in one step', async () => {
+      const { undo, undoCount, clearHistory } = useHistory()
+
+      store.addSet()
+      const [first, second] = store.state.sets
+      store.addSongToSet(first!.id, { title: 'Jolene', key: 'C#m' })
+      store.addSongToSet(first!.id, { title: 'Valerie', key: 'Eb' })
+      store.addSongToSet(second!.id, { title: 'Hey Jude', key: 'F' })
+      await nextTick()
+
+      clearHistory()
+      await nextTick()
+      const before = undoCount.value
+
+      store.transposeSets([first!.id, second!.id], 2)
+      await nextTick()
+
+      expect(undoCount.value).toBe(before + 1)
+
+      undo()
+      await nextTick()
+
+      expect(store.state.sets.flatMap(set => set.songs.map(song => song.key)))
+        .toEqual(['C#m', 'Eb', 'F'])
+    })
+
     it('should handle multiple set operations', async () => {
       const { undo } = useHistory()
 
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import { ref } from 'vue'
+import { useSetTiming } from '@/composables/useSetTiming'
+import { createMockSet, createMockSong } from '@/__tests__/mockData'
+
+describe('useSetTiming', () => {
+  describe('setDuration', () => {
+    it('should sum song durations', () => {
+      const set = ref(
+        createMockSet('set-1', [
+          createMockSong('a', { duration: 180 }),
+          createMockSong('b', { duration: 240 })
+        ])
+      )
+      const { setDuration } = useSetTiming({ set })
+
+      expect(setDuration.value).toBe(420)
+    })
+
+    it('should treat songs without a duration as zero', () => {
+      const set = ref(
+        createMockSet('set-1', [
+          createMockSong('a', { duration: 180 }),
+          createMockSong('b')
+        ])
+      )
+      const { setDuration } = useSetTiming({ set })
+
+      expect(setDuration.value).toBe(180)
+    })
+
+    it('should ignore the encore marker', () => {
+      const set = ref(
+        createMockSet('set-1', [
+          createMockSong('a', { duration: 180 }),
+          createMockSong('<encore>', { isEncoreMarker: true, duration: 60 })
+        ])
+      )
+      const { setDuration } = useSetTiming({ set })
+
+      expect(setDuration.value).toBe(180)
+    })
+  })
+
+  describe('coreDuration', () => {
+    it('should leave optional songs out of the core time', () => {
+      const set = ref(
+        createMockSet('set-1', [
+          createMockSong('a', { duration: 180 }),
+          createMockSong('b', { duration: 240, isOptional: true })
+        ])
+      )
+      const { setDuration, coreDuration } = useSetTiming({ set })
+
+      expect(coreDuration.value).toBe(180)
+      expect(setDuration.value).toBe(420)
+    })
+  })
+
+  describe('targetDelta', () => {
+    it('should be null when no target is set', () => {
+      const set = ref(
+        createMockSet('set-1', [createMockSong('a', { duration: 180 })])
+      )
+      const { targetDelta, isOverTarget } = useSetTiming({ set })
+
+      expect(targetDelta.value).toBeNull()
+      expect(isOverTarget.value).toBe(false)
+    })
+
+    it('should be negative when under target', () => {
+      const set = ref(
+        createMockSet('set-1', [createMockSong('a', { duration: 180 })], {
+          targetDuration: 600
+        })
+      )
+      const { targetDelta, isOverTarget } = useSetTiming({ set })
+
+      expect(targetDelta.value).toBe(-420)
+      expect(isOverTarget.value).toBe(false)
+    })
+
+    it('should be positive when over target', () => {
+      const set = ref(
+        createMockSet(
+          'set-1',
+          [
+            createMockSong('a', { duration: 400 }),
+            createMockSong('b', { duration: 300 })
+          ],
+          { targetDuration: 600 }
+        )
+      )
+      const { targetDelta, isOverTarget } = useSetTiming({ set })
+
+      expect(targetDelta.value).toBe(100)
+      expect(isOverTarget.value).toBe(true)
+    })
+
+    it('should react to target changes', () => {
+      const set = ref(
+        createMockSet('set-1', [createMockSong('a', { duration: 400 })], {
+          targetDuration: 600
+        })
+      )
+      const { isOverTarget } = useSetTiming({ set })
+
+      expect(isOverTarget.value).toBe(false)
+      set.value.targetDuration = 300
+      expect(isOverTarget.value).toBe(true)
+    })
+  })
+
+  describe('overTargetSongIds', () => {
+    it('should be empty when the set fits its target', () => {
+      const set = ref(
+        createMockSet(
+          'set-1',
+          [
+            createMockSong('a', { duration: 200 }),
+            createMockSong('b', { duration: 200 })
+          ],
+          { targetDuration: 600 }
+        )
+      )
+      const { overTargetSongIds } = useSetTiming({ set })
+
+      expect(overTargetSongIds.value.size).toBe(0)
+    })
+
+    it('should flag the song that crosses the target and every song after it', () => {
+      const set = ref(
+        createMockSet(
+          'set-1',
+          [
+            createMockSong('a', { duration: 300 }),
+            createMockSong('b', { duration: 200 }),
+            createMockSong('c', { duration: 200 }),
+            createMockSong('d', { duration: 200 })
+          ],
+          { targetDuration: 600 }
+        )
+      )
+      const { overTargetSongIds, isSongOverTarget } = useSetTiming({ set })
+
+      expect([...overTargetSongIds.value]).toEqual(['c', 'd'])
+      expect(isSongOverTarget('a')).toBe(false)
+      expect(isSongOverTarget('c')).toBe(true)
+    })
+
+    it('should not flag a song that ends exactly on target', () => {
+      const set = ref(
+        createMockSet(
+          'set-1',
+          [
+            createMockSong('a', { duration: 300 }),
+            createMockSong('b', { duration: 300 }),
+            createMockSong('c', { duration: 60 })
+          ],
+          { targetDuration: 600 }
+        )
+      )
+      const { isSongOverTarget } = useSetTiming({ set })
+
+      expect(isSongOverTarget('b')).toBe(false)
+      expect(isSongOverTarget('c')).toBe(true)
+    })
+
+    it('should not flag songs without a duration', () => {
+      const set = ref(
+        createMockSet(
+          'set-1',
+          [createMockSong('a', { duration: 700 }), createMockSong('b')],
+          { targetDuration: 600 }
+        )
+      )
+      const { isSongOverTarget } = useSetTiming({ set })
+
+      expect(isSongOverTarget('a')).toBe(true)
+      expect(isSongOverTarget('b')).toBe(false)
+    })
+  })
+})
@@ -69,6 +69,30 @@ function setupStoreWithEncoreMarker() {
   ]
 }
 
+function setupStoreWithSectionMarker() {
+  setActivePinia(createPinia())
+  store = useSetlistStore()
+
+  store.state.sets = [
+    {
+      id: 'set-1',
+      name: 'Set 1',
+      songs: [
+        { id: 'song-1-1', title: 'Acoustic', isSectionMarker: true },
+        { id: 'song-1-2', title: 'Song 1', key: 'A' },
+        { id: 'song-1-3', title: 'Medley', isSectionMarker: true },
+        { id: 'song-1-4', title: 'Song 2', key: 'B' }
+      ],
+      metrics: {
+        longestEntryId: 'song-1-2',
+        longestEntryText: 'Song 1 (A)',
+        longestEntryWidth16px: 100,
+        totalRows: 2
+      }
+    }
+  ]
+}
+
 function setupEmptyStore() {
   setActivePinia(createPinia())
   store = useSetlistStore()
@@ -278,6 +302,28 @@ describe('useSetlistNavigation', () => {
         songIndex: 2
       })
     })
+
+    it('should skip section markers', () => {
+      setupStoreWithSectionMarker()
+      const { setFocus, moveDown, focusedItem } = useSetlistNavigation()
+
+      // From the set name, the first song comes after the "Acoustic" marker
+      setFocus({ setIndex: 0, type: 'name' })
+      moveDown()
+      expect(focusedItem.value).toEqual({
+        setIndex: 0,
+        type: 'song',
+        songIndex: 1
+      })
+
+      // ...and the next one after the "Medley" marker
+      moveDown()
+      expect(focusedItem.value).toEqual({
+        setIndex: 0,
+        type: 'song',
+        songIndex: 3
+      })
+    })
   })
 
   describe('moveUp', () => {
@@ -1,5 +1,11 @@
 import { computed, type Ref, type ComputedRef } from 'vue'
-import { isEncoreMarkerSong, type SetItem, type Song } from '@/stores/store'
+import type { SetItem, Song } from '@/stores/types'
+import {
+  getEncoreBreaks,
+  getEncoreDividers,
+  isEncoreMarkerSong,
+  isMarkerSong
+} from '@/stores/encore'
 
 /**
  * Options for useEncoreHelpers
@@ -7,29 +13,23 @@ import { isEncoreMarkerSong, type SetItem, type Song } from '@/stores/store'
 export interface EncoreHelpersOptions {
   /** The set to analyze for encore markers */
   set: Ref<SetItem> | ComputedRef<SetItem>
-  /** Whether this is the last set (encore markers only apply to last set) */
-  isLast: Ref<boolean> | ComputedRef<boolean> | boolean
 }
 
 /**
  * Composable for encore marker logic.
  * Consolidates duplicate encore-related computed properties and helpers
- * used across Set.vue and SetPreview.vue.
+ * used across Set.vue and SetPreview.vue. A set can have any number of
+ * encore markers; every song after the first one is an encore.
  */
 export function useEncoreHelpers(options: EncoreHelpersOptions) {
-  const { set, isLast } = options
-
-  // Normalize isLast to always be a ref-like getter
-  const getIsLast = () => (typeof isLast === 'boolean' ? isLast : isLast.value)
+  const { set } = options
 
   /**
-   * Index of the encore marker in the songs array, or -1 if not present.
-   * Only meaningful for the last set.
+   * Index of the first encore marker in the songs array, or -1 if not present.
    */
-  const markerIndex = computed(() => {
-    if (!getIsLast()) return -1
-    return set.value.songs.findIndex(isEncoreMarkerSong)
-  })
+  const markerIndex = computed(() =>
+    set.value.songs.findIndex(isEncoreMarkerSong)
+  )
 
   /**
    * Whether the set has an encore marker.
@@ -37,42 +37,43 @@ export function useEncoreHelpers(options: EncoreHelpersOptions) {
   const hasEncoreMarker = computed(() => markerIndex.value !== -1)
 
   /**
-   * Whether the encore marker is at the last position in the songs array.
+   * Each encore break in the set, with its label ("Encore 1"...).
    */
-  const markerIsLast = computed(() => {
-    if (markerIndex.value === -1) return false
-    return markerIndex.value === set.value.songs.length - 1
-  })
+  const encoreBreaks = computed(() => getEncoreBreaks(set.value))
 
   /**
-   * The ID of the first song after the encore marker (i.e., the first encore song).
-   * Returns null if there's no encore marker or no song after it.
+   * Divider labels keyed by the ID of the song each divider goes above.
    */
-  const firstEncoreSongId = computed(() => {
-    const idx = markerIndex.value
-    if (idx === -1) return null
-    return set.value.songs[idx + 1]?.id ?? null
-  })
+  const encoreDividers = computed(() => getEncoreDividers(set.value))
+
+  /**
+   * The ID of the first song after an encore marker (i.e., the first encore song).
+   * Returns null if there's no encore marker or no song after one.
+   */
+  const firstEncoreSongId = computed(
+    () =>
+      encoreBreaks.value.find(({ firstSongId }) => firstSongId)?.firstSongId ??
+      null
+  )
 
   /**
-   * Songs filtered to exclude the encore marker.
-   * Useful for rendering where the marker itself shouldn't be displayed.
+   * Songs filtered to exclude the encore and section markers.
+   * Useful for rendering where the markers themselves shouldn't be displayed.
    */
   const songsWithoutMarker = computed(() =>
-    set.value.songs.filter(song => !isEncoreMarkerSong(song))
+    set.value.songs.filter(song => !isMarkerSong(song))
   )
 
   /**
-   * Check if a song is an encore song (comes after the encore marker).
+   * Check if a song is an encore song (comes after the first encore marker).
    * @param song - The song to check
    * @returns true if the song is an encore
    */
   function isEncoreSong(song: Song): boolean {
-    if (!getIsLast()) return false
     const idx = markerIndex.value
     if (idx === -1) return false
     const songIndex = set.value.songs.findIndex(s => s.id === song.id)
-    return songIndex > idx
+    return songIndex > idx && !isMarkerSong(song)
   }
 
   /**
@@ -81,16 +82,16 @@ export function useEncoreHelpers(options: EncoreHelpersOptions) {
    * @returns true if the song at that index is an encore
    */
   function isEncoreSongByIndex(index: number): boolean {
-    if (!getIsLast()) return false
     const idx = markerIndex.value
     if (idx === -1) return false
-    return index > idx
+    return index > idx && !isMarkerSong(set.value.songs[index])
   }
 
   return {
     markerIndex,
     hasEncoreMarker,
-    markerIsLast,
+    encoreBreaks,
+    encoreDividers,
     firstEncoreSongId,
     songsWithoutMarker,
     isEncoreSong,
@@ -2,12 +2,41 @@ import { ref, computed } from 'vue'
 import { useSetlistStore } from '@/stores/store'
 import { generateSlugFromArray } from '@/utils/generateSlugFromArray'
 import { migrateToCurrentSchema } from '@/utils/schemaMigration'
+import {
+  IDB_STORES,
+  idbDelete,
+  idbGetAll,
+  idbPut,
+  isIndexedDbAvailable
+} from '@/utils/indexedDb'
 
 /**
  * LocalStorage key for persisting the current filename
  */
 const FILENAME_STORAGE_KEY = 'set-lister-current-filename'
 
+/**
+ * LocalStorage key for the recent-files entry of the current file, so its
+ * handle can be restored after a reload
+ */
+const FILE_ID_STORAGE_KEY = 'set-lister-current-file-id'
+
+/**
+ * Number of files kept in the Recent menu
+ */
+const MAX_RECENT_FILES = 8
+
+/**
+ * A recently opened or saved file, persisted in IndexedDB
+ */
+export interface RecentFile {
+  id: string
+  name: string
+  handle: FileSystemFileHandle
+  /** Last time the file was opened or saved, in ms since the epoch */
+  openedAt: number
+}
+
 /**
  * Generate a suggested filename for "Save As" / "Save a Copy" by appending -01, -02, etc.
  * If the original filename is "my-setlist.json", returns "my-setlist-01.json".
@@ -33,11 +62,47 @@ function generateCopyFilename(originalName: string): string {
   }
 }
 
+/**
+ * Move a file to the top of the recent list, trimming the list to `limit`.
+ * Returns the new list and the entries that fell off the end.
+ */
+function mergeRecentFile(
+  files: RecentFile[],
+  entry: RecentFile,
+  limit: number
+): { files: RecentFile[]; dropped: RecentFile[] } {
+  const merged = [
+    entry,
+    ...files
+      .filter(file => file.id !== entry.id)
+      .sort((a, b) => b.openedAt - a.openedAt)
+  ]
+  return { files: merged.slice(0, limit), dropped: merged.slice(limit) }
+}
+
+/**
+ * Check permission on a file handle, asking the user again if needed.
+ * Handles restored from IndexedDB start without permission after a reload.
+ * Must be called from a user gesture for the prompt to appear.
+ */
+async function ensurePermission(
+  handle: FileSystemFileHandle,
+  mode: 'read' | 'readwrite' = 'readwrite'
+): Promise<boolean> {
+  // Older implementations have no permission API and always allow access
+  if (typeof handle.queryPermission !== 'function') return true
+  if ((await handle.queryPermission({ mode })) === 'granted') return true
+  return (await handle.requestPermission({ mode })) === 'granted'
+}
+
 /**
  * Module-level state that persists across component re-mounts and HMR.
  */
 const currentFileHandle = ref<FileSystemFileHandle | null>(null)
 const currentFilename = ref<string | null>(null)
+const currentFileId = ref<string | null>(null)
+const recentFiles = ref<RecentFile[]>([])
+let recentFilesLoaded = false
 
 // Restore filename from localStorage on module load
 try {
@@ -45,6 +110,7 @@ try {
   if (savedFilename) {
     currentFilename.value = savedFilename
   }
+  currentFileId.value = localStorage.getItem(FILE_ID_STORAGE_KEY)
 } catch {
   // Ignore localStorage errors
 }
@@ -97,6 +163,106 @@ function saveFilenameToStorage(filename: string | null): void {
   }
 }
 
+/**
+ * Save the recent-files id of the current file to localStorage
+ */
+function saveFileIdToStorage(id: string | null): void {
+  currentFileId.value = id
+  try {
+    if (id) {
+      localStorage.setItem(FILE_ID_STORAGE_KEY, id)
+    } else {
+      localStorage.removeItem(FILE_ID_STORAGE_KEY)
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Read the recent files from IndexedDB, and give Save back the handle of
+ * the file that was open before the page was reloaded.
+ */
+async function loadRecentFiles(): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+  try {
+    const files = await idbGetAll<RecentFile>(IDB_STORES.FILE_HANDLES)
+    recentFiles.value = files.sort((a, b) => b.openedAt - a.openedAt)
+    recentFilesLoaded = true
+
+    if (!currentFileHandle.value && currentFileId.value) {
+      const current = recentFiles.value.find(
+        file => file.id === currentFileId.value
+      )
+      if (current) {
+        currentFileHandle.value = current.handle
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load recent files:', err)
+  }
+}
+
+/**
+ * Add a file handle to the top of the recent files and make it current
+ */
+async function rememberFile(handle: FileSystemFileHandle): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+  try {
+    if (!recentFilesLoaded) await loadRecentFiles()
+
+    let existing: RecentFile | undefined
+    for (const file of recentFiles.value) {
+      if (await file.handle.isSameEntry(handle)) {
+        existing = file
+        break
+      }
+    }
+
+    const entry: RecentFile = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: handle.name,
+      handle,
+      openedAt: Date.now()
+    }
+    const { files, dropped } = mergeRecentFile(
+      recentFiles.value,
+      entry,
+      MAX_RECENT_FILES
+    )
+
+    await idbPut(IDB_STORES.FILE_HANDLES, entry)
+    await Promise.all(
+      dropped.map(file => idbDelete(IDB_STORES.FILE_HANDLES, file.id))
+    )
+    recentFiles.value = files
+    saveFileIdToStorage(entry.id)
+  } catch (err) {
+    console.error('Failed to remember recent file:', err)
+  }
+}
+
+/**
+ * Remove a file from the recent files
+ */
+async function removeRecentFile(id: string): Promise<void> {
+  recentFiles.value = recentFiles.value.filter(file => file.id !== id)
+  if (!isIndexedDbAvailable()) return
+  try {
+    await idbDelete(IDB_STORES.FILE_HANDLES, id)
+  } catch (err) {
+    console.error('Failed to remove recent file:', err)
+  }
+}
+
+/**
+ * Forget every recent file
+ */
+async function clearRecentFiles(): Promise<void> {
+  const ids = recentFiles.value.map(file => file.id)
+  await Promise.all(ids.map(removeRecentFile))
+}
+
 /**
  * Composable for file save/load operations using File System Access API
  * with fallbacks for browsers that don't support it.
@@ -111,6 +277,35 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
    */
   const displayFilename = computed(() => currentFilename.value)
 
+  /**
+   * Ask before replacing unsaved changes. Resolves to true to go ahead.
+   */
+  async function confirmDiscardChanges(): Promise<boolean> {
+    if (!store.isDirty) return true
+
+    if (showConfirm) {
+      return showConfirm({
+        title: 'Unsaved Changes',
+        message:
+          'You have unsaved changes. Are you sure you want to load a new file? Unsaved changes will be lost.',
+        confirmText: 'Load File',
+        cancelText: 'Cancel',
+        danger: true
+      })
+    }
+    return confirm(
+      'You have unsaved changes. Are you sure you want to load a new file? Unsaved changes will be lost.'
+    )
+  }
+
+  async function showError(title: string, message: string): Promise<void> {
+    if (showAlert) {
+      await showAlert({ title, message })
+    } else {
+      alert(message)
+    }
+  }
+
   type SaveEvent = MouseEvent | KeyboardEvent | { altKey?: boolean } | undefined
 
   /**
@@ -134,7 +329,17 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
         const hasExistingHandle = Boolean(currentFileHandle.value)
 
         // Determine if we need to show the picker
-        const showPicker = isSaveAs || !hasExistingHandle
+        let showPicker = isSaveAs || !hasExistingHandle
+
+        // A handle restored after a reload needs permission again; if the
+        // user refuses, let them pick where to save instead
+        if (
+          !showPicker &&
+          currentFileHandle.value &&
+          !(await ensurePermission(currentFileHandle.value))
+        ) {
+          showPicker = true
+        }
 
         if (showPicker) {
           // Generate suggested filename
@@ -174,6 +379,7 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
         await writable.close()
 
         store.markClean()
+        await rememberFile(currentFileHandle.value)
       } else {
         // Fallback for browsers without File System Access API
         const blob = new Blob([jsonString], { type: 'application/json' })
@@ -224,24 +430,7 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
    * Uses File System Access API if available, otherwise falls back to file input.
    */
   async function loadFromDisk(): Promise<void> {
-    if (store.isDirty) {
-      let confirmed: boolean
-      if (showConfirm) {
-        confirmed = await showConfirm({
-          title: 'Unsaved Changes',
-          message:
-            'You have unsaved changes. Are you sure you want to load a new file? Unsaved changes will be lost.',
-          confirmText: 'Load File',
-          cancelText: 'Cancel',
-          danger: true
-        })
-      } else {
-        confirmed = confirm(
-          'You have unsaved changes. Are you sure you want to load a new file? Unsaved changes will be lost.'
-        )
-      }
-      if (!confirmed) return
-    }
+    if (!(await confirmDiscardChanges())) return
 
     try {
       if (
@@ -267,6 +456,7 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
           currentFileHandle.value = handle
           currentFilename.value = handle.name
           saveFilenameToStorage(handle.name)
+          if (handle) await rememberFile(handle)
           onLoad?.()
         } else {
           if (showAlert) {
@@ -298,6 +488,56 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
     }
   }
 
+  /**
+   * Reopen a file from the recent files, asking for permission again if the
+   * browser has forgotten it
+   */
+  async function openRecentFile(id: string): Promise<void> {
+    const recent = recentFiles.value.find(file => file.id === id)
+    if (!recent) return
+    if (!(await confirmDiscardChanges())) return
+
+    try {
+      if (!(await ensurePermission(recent.handle))) {
+        await showError(
+          'Permission Denied',
+          `Set Lister needs permission to open "${recent.name}".`
+        )
+        return
+      }
+
+      const file = await recent.handle.getFile()
+      const text = await file.text()
+      const data = migrateToCurrentSchema(JSON.parse(text))
+
+      if (data && store.loadStore(data)) {
+        currentFileHandle.value = recent.handle
+        currentFilename.value = recent.handle.name
+        saveFilenameToStorage(recent.handle.name)
+        await rememberFile(recent.handle)
+        onLoad?.()
+      } else {
+        await showError(
+          'Invalid File',
+          'The selected file is not a valid set list file.'
+        )
+      }
+    } catch (err) {
+      const error = err as DOMException
+      if (error.name === 'NotFoundError') {
+        // Moved or deleted since it was last opened
+        await removeRecentFile(id)
+        await showError(
+          'File Not Found',
+          `"${recent.name}" could not be found. It has been removed from the recent files.`
+        )
+      } else {
+        console.error('Failed to open recent file:', err)
+        await showError('Load Error', 'Failed to load file. Please try again.')
+      }
+    }
+  }
+
   /**
    * Handle file input change event (fallback for browsers without File System Access API)
    */
@@ -316,6 +556,7 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
         currentFileHandle.value = null
         currentFilename.value = file.name
         saveFilenameToStorage(file.name)
+        saveFileIdToStorage(null)
         onLoad?.()
       } else {
         if (showAlert) {
@@ -350,6 +591,7 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
     currentFileHandle.value = null
     currentFilename.value = null
     saveFilenameToStorage(null)
+    saveFileIdToStorage(null)
   }
 
   /**
@@ -365,9 +607,14 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
   return {
     currentFileHandle,
     currentFilename: displayFilename,
+    recentFiles,
     fileInput,
     saveToDisk,
     loadFromDisk,
+    loadRecentFiles,
+    openRecentFile,
+    removeRecentFile,
+    clearRecentFiles,
     handleFileInputChange,
     clearFileHandle,
     handleBeforeUnload
@@ -380,8 +627,12 @@ export function useFileOperations(options: FileOperationsOptions = {}) {
 export function _resetFileState(): void {
   currentFileHandle.value = null
   currentFilename.value = null
+  currentFileId.value = null
+  recentFiles.value = []
+  recentFilesLoaded = false
   try {
     localStorage.removeItem(FILENAME_STORAGE_KEY)
+    localStorage.removeItem(FILE_ID_STORAGE_KEY)
   } catch {
     // Ignore localStorage errors
   }
@@ -391,3 +642,8 @@ export function _resetFileState(): void {
  * Export generateCopyFilename for testing
  */
 export { generateCopyFilename as _generateCopyFilename }
+
+/**
+ * Export mergeRecentFile for testing
+ */
+export { mergeRecentFile as _mergeRecentFile }
@@ -1,6 +1,7 @@
 import { computed, nextTick, ref, watch } from 'vue'
 import { useRefHistory } from '@vueuse/core'
-import { useSetlistStore, type SetItem, type SetListMetadata } from '@/stores/store'
+import { useSetlistStore } from '@/stores/store'
+import type { SetItem, SetListMetadata } from '@/stores/types'
 import { LIMITS } from '@/constants/limits'
 import { isDataEqual, type ComparableData } from '@/utils/stateComparison'
 
@@ -29,11 +30,22 @@ function toComparableData(state: HistoryState): ComparableData {
     sets: state.sets.map(set => ({
       id: set.id,
       name: set.name,
+      targetDuration: set.targetDuration,
+      intervalAfter: set.intervalAfter,
       songs: set.songs.map(song => ({
         id: song.id,
         title: song.title,
         key: song.key,
-        isEncoreMarker: song.isEncoreMarker
+        duration: song.duration,
+        tempo: song.tempo,
+        cue: song.cue,
+        notes: song.notes,
+        segueTo: song.segueTo,
+        isOptional: song.isOptional,
+        isEncoreMarker: song.isEncoreMarker,
+        isSectionMarker: song.isSectionMarker,
+        itemType: song.itemType,
+        libraryId: song.libraryId
       }))
     }))
   }
@@ -112,12 +124,13 @@ export function useHistory() {
     store.state.metadata.venue = state.metadata.venue
     store.state.metadata.date = state.metadata.date
     store.state.metadata.actName = state.metadata.actName
+    store.state.metadata.startTime = state.metadata.startTime
+    store.state.metadata.curfew = state.metadata.curfew
+    // gigId is left alone: the gig log entry it points at isn't undone
 
     // Update sets - we need to replace the entire array
     store.state.sets.splice(0, store.state.sets.length, ...deepClone(state.sets))
 
-    // Ensure encore markers are in valid state
-    store.sanitizeEncoreMarkers()
     // Note: isDirty is now computed by comparing current state to original state,
     // so no manual assignment is needed here
   }
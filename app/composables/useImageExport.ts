@@ -0,0 +1,79 @@
+import { ref } from 'vue'
+import { downloadFile } from '@/utils/download'
+import { loadBundledFonts } from '@/utils/bundledFonts'
+import { elementToSvg, fontFaceCss, svgToPng } from '@/utils/elementImage'
+import type { FileOperationsOptions } from './useFileOperations'
+
+export type ImageExportFormat = 'png' | 'svg'
+
+/**
+ * Composable for saving preview pages as PNG or SVG images, e.g. for
+ * social media or tablet apps that only show pictures.
+ */
+export function useImageExport(
+  options: Pick<FileOperationsOptions, 'showAlert'> = {}
+) {
+  const { showAlert } = options
+  const { baseURL } = useRuntimeConfig().app
+  const isExporting = ref(false)
+
+  let fontCss: string | null = null
+
+  async function getFontCss(): Promise<string> {
+    if (fontCss === null) {
+      const fonts = await loadBundledFonts(baseURL)
+      fontCss =
+        fontFaceCss('NotoSans', fonts.sans) +
+        fontFaceCss('NotoMusic', fonts.music, '400')
+    }
+    return fontCss
+  }
+
+  /**
+   * Save a rendered preview page as an image, exactly as it is shown
+   * (uppercase, numbering and guides included)
+   *
+   * @param element - The page element, e.g. `.preview-set`
+   * @param format - PNG (high resolution) or SVG
+   * @param filename - Download name without the extension
+   */
+  async function exportElementImage(
+    element: HTMLElement,
+    format: ImageExportFormat,
+    filename: string
+  ): Promise<void> {
+    if (isExporting.value) return
+    isExporting.value = true
+    try {
+      const { svg, width, height } = elementToSvg(element, {
+        fontCss: await getFontCss(),
+        // The page shadow only belongs on screen
+        rootStyle: { 'box-shadow': 'none' }
+      })
+      if (format === 'svg') {
+        downloadFile(svg, `${filename}.svg`, 'image/svg+xml')
+      } else {
+        downloadFile(
+          await svgToPng(svg, width, height),
+          `${filename}.png`,
+          'image/png'
+        )
+      }
+    } catch (err) {
+      console.error('Failed to export image:', err)
+      if (showAlert) {
+        await showAlert({
+          title: 'Image Error',
+          message: `The ${format.toUpperCase()} image could not be created.`
+        })
+      }
+    } finally {
+      isExporting.value = false
+    }
+  }
+
+  return {
+    isExporting,
+    exportElementImage
+  }
+}
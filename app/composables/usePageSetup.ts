@@ -0,0 +1,57 @@
+import { computed, ref } from 'vue'
+import { STORAGE_KEYS } from '@/constants'
+import { safeGetItem, safeSetItem } from '@/utils/storage'
+import {
+  DEFAULT_PAGE_SETUP,
+  getPageDimensions,
+  sanitizePageSetup,
+  type PageSetup
+} from '@/utils/pageSetup'
+
+function loadPageSetup(): PageSetup {
+  const saved = safeGetItem(STORAGE_KEYS.PAGE_SETUP)
+  if (!saved) return sanitizePageSetup(DEFAULT_PAGE_SETUP)
+  try {
+    return sanitizePageSetup(JSON.parse(saved))
+  } catch {
+    return sanitizePageSetup(DEFAULT_PAGE_SETUP)
+  }
+}
+
+/**
+ * Module-level state shared by the preview, the WYSIWYG editor and exports.
+ */
+const pageSetup = ref<PageSetup>(loadPageSetup())
+const dimensions = computed(() => getPageDimensions(pageSetup.value))
+
+/**
+ * Composable for the paper size, orientation and margins used for printing.
+ * The setting is a user preference, kept in localStorage rather than in the
+ * set list file.
+ */
+export function usePageSetup() {
+  function updatePageSetup(setup: PageSetup): void {
+    pageSetup.value = sanitizePageSetup(setup)
+    safeSetItem(STORAGE_KEYS.PAGE_SETUP, JSON.stringify(pageSetup.value))
+  }
+
+  function resetPageSetup(): void {
+    updatePageSetup(DEFAULT_PAGE_SETUP)
+  }
+
+  /**
+   * `@page` rule so the browser prints on the chosen paper
+   */
+  const printPageCss = computed(
+    () =>
+      `@page { size: ${dimensions.value.widthCm}cm ${dimensions.value.heightCm}cm; margin: 0; }`
+  )
+
+  return {
+    pageSetup: computed(() => pageSetup.value),
+    dimensions,
+    printPageCss,
+    updatePageSetup,
+    resetPageSetup
+  }
+}
@@ -0,0 +1,59 @@
+import { ref } from 'vue'
+import { downloadFile } from '@/utils/download'
+import { loadBundledFonts } from '@/utils/bundledFonts'
+import type { PdfExportOptions } from '@/utils/pdfExport'
+import type { FileOperationsOptions } from './useFileOperations'
+
+/**
+ * Composable for downloading the set list as a PDF file.
+ * pdf-lib is only loaded the first time a PDF is made.
+ */
+export function usePdfExport(
+  options: Pick<FileOperationsOptions, 'showAlert'> = {}
+) {
+  const { showAlert } = options
+  const { baseURL } = useRuntimeConfig().app
+  const isGenerating = ref(false)
+
+  /**
+   * Build the PDF and offer it as a download
+   *
+   * @param exportOptions - Pages and display settings, as in the preview
+   * @param filename - Download name without the extension
+   */
+  async function downloadPdf(
+    exportOptions: Omit<PdfExportOptions, 'fonts'>,
+    filename: string
+  ): Promise<void> {
+    if (isGenerating.value) return
+    isGenerating.value = true
+    try {
+      const [{ createSetListPdf }, fonts] = await Promise.all([
+        import('@/utils/pdfExport'),
+        loadBundledFonts(baseURL)
+      ])
+      const bytes = await createSetListPdf({ ...exportOptions, fonts })
+      // pdf-lib always returns bytes backed by a plain ArrayBuffer
+      downloadFile(
+        bytes as Uint8Array<ArrayBuffer>,
+        `${filename}.pdf`,
+        'application/pdf'
+      )
+    } catch (err) {
+      console.error('Failed to create PDF:', err)
+      if (showAlert) {
+        await showAlert({
+          title: 'PDF Error',
+          message: 'The PDF could not be created.'
+        })
+      }
+    } finally {
+      isGenerating.value = false
+    }
+  }
+
+  return {
+    isGenerating,
+    downloadPdf
+  }
+}
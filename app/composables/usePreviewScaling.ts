@@ -1,14 +1,29 @@
-import { computed, nextTick, type Ref } from 'vue'
+import { computed, nextTick, ref, type Ref } from 'vue'
 import { fitStringsToBox } from '@/utils/fitStringsToBox'
 import { formatSongLabel } from '@/utils/textMetrics'
+import { CM_TO_PX } from '@/constants'
+import type { SetItem } from '@/stores/types'
+import { getIntactSegueIds } from '@/stores/segue'
 import {
-  BOX_HEIGHT_CM,
-  BOX_WIDTH_CM,
-  CM_TO_PX,
-  TARGET_HEIGHT_PX,
-  TARGET_WIDTH_PX
-} from '@/constants'
-import type { SetItem } from '@/stores/store'
+  countPlayableSongs,
+  isMarkerSong,
+  isRunningOrderItem
+} from '@/stores/encore'
+import type { PageDimensions } from '@/utils/pageSetup'
+import {
+  formatSongDetails,
+  getPrintPageKey,
+  resolvePrintOptions,
+  type PrintProfile
+} from '@/utils/printProfiles'
+
+/**
+ * Song text sizing chosen for one set's preview page in one print profile
+ */
+export interface PreviewSetSizing {
+  fontSizePx: number
+  lineHeight: number
+}
 
 /**
  * Options for usePreviewScaling
@@ -22,8 +37,20 @@ export interface PreviewScalingOptions {
   uppercasePreview: Ref<boolean>
   /** Ref indicating if song numbers should be shown */
   showNumbers: Ref<boolean>
+  /** Ref indicating if song start times are shown (only when the show has a start time) */
+  showSongTimes: Ref<boolean>
+  /** Ref indicating if song notes should be shown */
+  showNotes: Ref<boolean>
+  /** Ref indicating if minor keys are printed as a lowercase letter */
+  lowercaseMinor: Ref<boolean>
   /** Computed ref of sets to preview (filtered to non-empty) */
   previewSets: Ref<SetItem[]>
+  /** Print profiles being printed; each gets its own pages */
+  profiles: Ref<PrintProfile[]>
+  /** Notes per song id (see `getSongNotes`), for pages that print them */
+  songNotes: Ref<Record<string, string>>
+  /** Paper and printable box size from the user's page setup */
+  page: Ref<PageDimensions>
 }
 
 /**
@@ -39,16 +66,38 @@ export function usePreviewScaling(
     showPreview,
     uppercasePreview,
     showNumbers,
-    previewSets
+    showSongTimes,
+    showNotes,
+    lowercaseMinor,
+    previewSets,
+    profiles,
+    songNotes,
+    page
   } = options
 
   /**
-   * Computed style for the preview sheet (A4 dimensions)
+   * Sizing applied to each page by the last applyPreviewSizing(), keyed by
+   * `getPrintPageKey`. The PDF export reuses it so the file matches the preview.
    */
-  const previewSheetStyle = computed(() => ({
-    width: `${TARGET_WIDTH_PX}px`,
-    minHeight: `${TARGET_HEIGHT_PX}px`
-  }))
+  const setSizing = ref<Record<string, PreviewSetSizing>>({})
+
+  /**
+   * Computed style for the preview sheet (paper size and margins).
+   * SetPreview reads the custom properties for its padding, guides and print size.
+   */
+  const previewSheetStyle = computed(() => {
+    const { widthCm, heightCm, widthPx, heightPx, margins } = page.value
+    return {
+      width: `${widthPx}px`,
+      minHeight: `${heightPx}px`,
+      '--page-width': `${widthCm}cm`,
+      '--page-height': `${heightCm}cm`,
+      '--page-margin-top': `${margins.top}cm`,
+      '--page-margin-right': `${margins.right}cm`,
+      '--page-margin-bottom': `${margins.bottom}cm`,
+      '--page-margin-left': `${margins.left}cm`
+    }
+  })
 
   /**
    * Computed style for the preview wrapper with scaling transform
@@ -56,7 +105,7 @@ export function usePreviewScaling(
   const previewWrapperStyle = computed(() => ({
     transform: `scale(${previewScale.value})`,
     transformOrigin: 'top center',
-    height: `${TARGET_HEIGHT_PX * previewScale.value}px`
+    height: `${page.value.heightPx * previewScale.value}px`
   }))
 
   /**
@@ -79,7 +128,7 @@ export function usePreviewScaling(
       return
     }
 
-    const scale = Math.min(1, availableWidth / TARGET_WIDTH_PX)
+    const scale = Math.min(1, availableWidth / page.value.widthPx)
     previewScale.value = Number.isFinite(scale) && scale > 0 ? scale : 1
   }
 
@@ -100,72 +149,119 @@ export function usePreviewScaling(
     await nextTick()
     if (!previewRef.value) return
 
-    for (const set of previewSets.value) {
-      const setSelector = `.preview-set[data-set-id="${set.id}"]`
-      const setEl = previewRef.value.querySelector<HTMLElement>(setSelector)
-      if (!setEl) continue
-
-      const songsEl = setEl.querySelector<HTMLElement>('.song-list')
-      if (!songsEl) continue
-
-      // Filter out encore markers for string measurement
-      const playableSongs = set.songs.filter(
-        song => !song.isEncoreMarker && song.title !== '<encore>'
-      )
-
-      // When numbers are shown, we need to account for the number prefix width.
-      // Numbers are displayed at 50% font size, so we add equivalent space.
-      // The longest number determines the prefix width (e.g., "99" for 99 songs).
-      // At 50% size, the effective width is halved, plus a small gap.
-      const maxNumber = playableSongs.length
-      const numberPrefix = showNumbers.value
-        ? `${maxNumber}`.replace(/./g, '0') + ' ' // Use zeros for consistent width measurement
-        : ''
-
-      const strings = playableSongs.map(song => {
-        const title = uppercasePreview.value
-          ? song.title.toUpperCase()
-          : song.title
-        const label = formatSongLabel(title, song.key)
-        // Add half-width prefix to simulate the space taken by the number at 50% font size
-        // We use half the characters since the number is at 50% size
-        return showNumbers.value
-          ? numberPrefix.slice(0, Math.ceil(numberPrefix.length / 2)) + label
-          : label
+    const sizing: Record<string, PreviewSetSizing> = {}
+    for (const profile of profiles.value) {
+      const printOptions = resolvePrintOptions(profile, {
+        uppercase: uppercasePreview.value,
+        showNumbers: showNumbers.value,
+        showDurations: false,
+        showSongTimes: showSongTimes.value,
+        showNotes: showNotes.value,
+        lowercaseMinor: lowercaseMinor.value
       })
 
-      if (strings.length === 0) {
-        songsEl.style.fontSize = ''
-        songsEl.style.lineHeight = ''
-        continue
-      }
+      for (const set of previewSets.value) {
+        // Every copy of a page shares one size
+        const setSelector = `.preview-set[data-set-id="${set.id}"][data-profile="${profile.id}"]`
+        const setEls = Array.from(
+          previewRef.value.querySelectorAll<HTMLElement>(setSelector)
+        )
+        const setEl = setEls[0]
+        if (!setEl) continue
 
-      // Measure the header height to subtract from available space
-      // Use getBoundingClientRect and compute margin to get full height including margin-bottom
-      const headerEl = setEl.querySelector<HTMLElement>('.metadata-header')
-      let headerHeightPx = 0
-      if (headerEl) {
-        const headerRect = headerEl.getBoundingClientRect()
-        const headerStyles = window.getComputedStyle(headerEl)
-        const marginBottom = parseFloat(headerStyles.marginBottom) || 0
-        headerHeightPx = headerRect.height + marginBottom
-      }
+        const songsEls = setEls
+          .map(el => el.querySelector<HTMLElement>('.song-list'))
+          .filter((el): el is HTMLElement => el !== null)
+        if (songsEls.length === 0) continue
+
+        // Filter out encore and section markers for string measurement;
+        // running-order items print as rows too, but without a number
+        const playableSongs = set.songs.filter(song => !isMarkerSong(song))
+        const segueIds = getIntactSegueIds(set)
+
+        // When numbers are shown, we need to account for the number prefix width.
+        // Numbers are displayed at 50% font size, so we add equivalent space.
+        // The longest number determines the prefix width (e.g., "99" for 99 songs).
+        // At 50% size, the effective width is halved, plus a small gap.
+        const maxNumber = countPlayableSongs(set)
+        const numberPrefix = printOptions.showNumbers
+          ? `${maxNumber}`.replace(/./g, '0') + ' ' // Use zeros for consistent width measurement
+          : ''
+
+        // Song start times ("21:15") are also printed at 50% font size
+        const timePrefix = printOptions.showSongTimes ? '00:00 ' : ''
 
-      // Account for the .set-spacer element (min-height: 1em, roughly 16px)
-      const spacerHeightPx = 16
+        const strings = playableSongs.map(song => {
+          // Items keep their own case and have no key
+          const isItem = isRunningOrderItem(song)
+          const title =
+            printOptions.uppercase && !isItem
+              ? song.title.toUpperCase()
+              : song.title
+          const songLabel = formatSongLabel(
+            title,
+            printOptions.fields.key && !isItem ? song.key : undefined,
+            printOptions.lowercaseMinor
+          )
+          // Optional songs are printed in brackets, and segues with an arrow
+          const label =
+            (song.isOptional ? `[${songLabel}]` : songLabel) +
+            (segueIds.has(song.id) ? ' →' : '')
+          // Add half-width prefix to simulate the space taken by the number at 50% font size
+          // We use half the characters since the number is at 50% size
+          const prefix = numberPrefix + timePrefix
+          // Notes and profile details (tempo, cue...) follow the title, also at 50% size
+          const details = formatSongDetails(
+            song,
+            printOptions.fields,
+            songNotes.value[song.id]
+          )
+          return (
+            (prefix ? prefix.slice(0, Math.ceil(prefix.length / 2)) : '') +
+            label +
+            (details ? ' ' + details.slice(0, Math.ceil(details.length / 2)) : '')
+          )
+        })
 
-      // Convert to cm and subtract from available height
-      const usedHeightCm = (headerHeightPx + spacerHeightPx) / CM_TO_PX
-      const availableHeightCm = BOX_HEIGHT_CM - usedHeightCm
+        if (strings.length === 0) {
+          for (const songsEl of songsEls) {
+            songsEl.style.fontSize = ''
+            songsEl.style.lineHeight = ''
+          }
+          continue
+        }
 
-      const { fontSizePx, lineHeight } = fitStringsToBox(
-        strings,
-        BOX_WIDTH_CM,
-        availableHeightCm
-      )
-      songsEl.style.fontSize = `${fontSizePx}px`
-      songsEl.style.lineHeight = lineHeight.toString()
+        // Measure the header height to subtract from available space
+        // Use getBoundingClientRect and compute margin to get full height including margin-bottom
+        const headerEl = setEl.querySelector<HTMLElement>('.metadata-header')
+        let headerHeightPx = 0
+        if (headerEl) {
+          const headerRect = headerEl.getBoundingClientRect()
+          const headerStyles = window.getComputedStyle(headerEl)
+          const marginBottom = parseFloat(headerStyles.marginBottom) || 0
+          headerHeightPx = headerRect.height + marginBottom
+        }
+
+        // Account for the .set-spacer element (min-height: 1em, roughly 16px)
+        const spacerHeightPx = 16
+
+        // Convert to cm and subtract from available height
+        const usedHeightCm = (headerHeightPx + spacerHeightPx) / CM_TO_PX
+        const availableHeightCm = page.value.boxHeightCm - usedHeightCm
+
+        const { fontSizePx, lineHeight } = fitStringsToBox(
+          strings,
+          page.value.boxWidthCm,
+          availableHeightCm
+        )
+        for (const songsEl of songsEls) {
+          songsEl.style.fontSize = `${fontSizePx}px`
+          songsEl.style.lineHeight = lineHeight.toString()
+        }
+        sizing[getPrintPageKey(profile.id, set.id)] = { fontSizePx, lineHeight }
+      }
     }
+    setSizing.value = sizing
   }
 
   /**
@@ -184,6 +280,7 @@ export function usePreviewScaling(
   }
 
   return {
+    setSizing,
     previewSheetStyle,
     previewWrapperStyle,
     updatePreviewScale,
@@ -0,0 +1,43 @@
+import { computed, ref } from 'vue'
+import { STORAGE_KEYS } from '@/constants'
+import { safeGetItem, safeSetItem } from '@/utils/storage'
+import {
+  DEFAULT_PRINT_COPIES,
+  PRINT_PROFILES,
+  sanitizePrintCopies,
+  type PrintCopies
+} from '@/utils/printProfiles'
+
+function loadPrintCopies(): PrintCopies {
+  const saved = safeGetItem(STORAGE_KEYS.PRINT_COPIES)
+  if (!saved) return { ...DEFAULT_PRINT_COPIES }
+  try {
+    return sanitizePrintCopies(JSON.parse(saved))
+  } catch {
+    return { ...DEFAULT_PRINT_COPIES }
+  }
+}
+
+/**
+ * Composable for which print profiles to print, and how many copies of
+ * each. Like the page setup, this is a user preference kept in localStorage.
+ */
+export function usePrintCopies() {
+  const copies = ref<PrintCopies>(loadPrintCopies())
+
+  /** Profiles with at least one copy, in print order */
+  const activeProfiles = computed(() =>
+    PRINT_PROFILES.filter(profile => copies.value[profile.id] > 0)
+  )
+
+  function updatePrintCopies(value: PrintCopies): void {
+    copies.value = sanitizePrintCopies(value)
+    safeSetItem(STORAGE_KEYS.PRINT_COPIES, JSON.stringify(copies.value))
+  }
+
+  return {
+    printCopies: computed(() => copies.value),
+    activeProfiles,
+    updatePrintCopies
+  }
+}
@@ -0,0 +1,270 @@
+import { ref } from 'vue'
+import { useSetlistStore } from '@/stores/store'
+import type { ArchivedSetList } from '@/stores/types'
+import { STORAGE_KEYS } from '@/constants'
+import { safeGetItem, safeRemoveItem, safeSetItem } from '@/utils/storage'
+import {
+  IDB_STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbPut,
+  isIndexedDbAvailable
+} from '@/utils/indexedDb'
+import { migrateToCurrentSchema } from '@/utils/schemaMigration'
+import { sanitizeMetadataField } from '@/utils/sanitize'
+import { getCopyName } from '@/utils/setListArchive'
+import type { FileOperationsOptions } from './useFileOperations'
+
+/**
+ * Module-level state shared by every component using the archive.
+ */
+const entries = ref<ArchivedSetList[]>([])
+const currentArchiveId = ref<string | null>(
+  safeGetItem(STORAGE_KEYS.ARCHIVE_ID)
+)
+
+function setCurrentArchiveId(id: string | null): void {
+  currentArchiveId.value = id
+  if (id) {
+    safeSetItem(STORAGE_KEYS.ARCHIVE_ID, id)
+  } else {
+    safeRemoveItem(STORAGE_KEYS.ARCHIVE_ID)
+  }
+}
+
+/**
+ * Options for useSetListArchive composable
+ */
+export interface SetListArchiveOptions
+  extends Pick<FileOperationsOptions, 'showConfirm' | 'showAlert'> {
+  /**
+   * Callback invoked after a set list has been opened from the archive.
+   * Useful for clearing undo/redo history and the current file handle.
+   */
+  onOpen?: () => void
+}
+
+/**
+ * Composable for the local document library: every set list saved in the
+ * browser (IndexedDB), independent of files on disk.
+ */
+export function useSetListArchive(options: SetListArchiveOptions = {}) {
+  const { showConfirm, showAlert, onOpen } = options
+  const store = useSetlistStore()
+  const isAvailable = isIndexedDbAvailable()
+
+  async function reportError(title: string, message: string, err: unknown) {
+    console.error(`${title}:`, err)
+    if (showAlert) {
+      await showAlert({ title, message })
+    } else {
+      alert(message)
+    }
+  }
+
+  async function confirmAction(options: {
+    title: string
+    message: string
+    confirmText: string
+    danger?: boolean
+  }): Promise<boolean> {
+    if (showConfirm) {
+      return showConfirm({ ...options, cancelText: 'Cancel' })
+    }
+    return confirm(options.message)
+  }
+
+  /**
+   * Reload the list of archived set lists
+   */
+  async function refresh(): Promise<void> {
+    if (!isAvailable) return
+    try {
+      entries.value = await idbGetAll<ArchivedSetList>(IDB_STORES.SET_LISTS)
+    } catch (err) {
+      await reportError(
+        'Library Error',
+        'Failed to read the set list library.',
+        err
+      )
+    }
+  }
+
+  async function putEntry(entry: ArchivedSetList): Promise<void> {
+    await idbPut(IDB_STORES.SET_LISTS, entry)
+    const index = entries.value.findIndex(e => e.id === entry.id)
+    if (index === -1) {
+      entries.value.push(entry)
+    } else {
+      entries.value.splice(index, 1, entry)
+    }
+  }
+
+  /**
+   * Save the current set list to the archive, replacing the entry it was
+   * opened from (or last saved to).
+   */
+  async function saveCurrent(): Promise<void> {
+    const entry: ArchivedSetList = {
+      id: currentArchiveId.value ?? crypto.randomUUID(),
+      updatedAt: Date.now(),
+      // Store a plain copy, not the reactive proxy
+      state: JSON.parse(JSON.stringify(store.state))
+    }
+
+    try {
+      await putEntry(entry)
+      setCurrentArchiveId(entry.id)
+      store.markClean()
+    } catch (err) {
+      await reportError(
+        'Save Error',
+        'Failed to save to the set list library. Please try again.',
+        err
+      )
+    }
+  }
+
+  /**
+   * Replace the current set list with an archived one
+   */
+  async function open(id: string): Promise<void> {
+    if (store.isDirty) {
+      const confirmed = await confirmAction({
+        title: 'Unsaved Changes',
+        message:
+          'You have unsaved changes. Are you sure you want to open another set list? Unsaved changes will be lost.',
+        confirmText: 'Open Set List',
+        danger: true
+      })
+      if (!confirmed) return
+    }
+
+    try {
+      const entry = await idbGet<ArchivedSetList>(IDB_STORES.SET_LISTS, id)
+      const data = entry ? migrateToCurrentSchema(entry.state) : null
+
+      if (data && store.loadStore(data)) {
+        setCurrentArchiveId(id)
+        onOpen?.()
+      } else if (showAlert) {
+        await showAlert({
+          title: 'Invalid Set List',
+          message: 'This set list could not be opened.'
+        })
+      } else {
+        alert('Invalid set list.')
+      }
+    } catch (err) {
+      await reportError(
+        'Open Error',
+        'Failed to open the set list. Please try again.',
+        err
+      )
+    }
+  }
+
+  /**
+   * Copy an archived set list under a new name
+   */
+  async function duplicate(id: string): Promise<void> {
+    const source = entries.value.find(entry => entry.id === id)
+    if (!source) return
+
+    const state = JSON.parse(JSON.stringify(source.state))
+    state.metadata.setListName = getCopyName(
+      source.state.metadata.setListName,
+      entries.value.map(entry => entry.state.metadata.setListName)
+    )
+    // The copy is a new gig, not the one the original was logged as
+    state.metadata.gigId = ''
+
+    try {
+      await putEntry({ id: crypto.randomUUID(), updatedAt: Date.now(), state })
+    } catch (err) {
+      await reportError(
+        'Duplicate Error',
+        'Failed to duplicate the set list. Please try again.',
+        err
+      )
+    }
+  }
+
+  /**
+   * Rename an archived set list. Renaming the open one renames it in the
+   * editor too.
+   */
+  async function rename(id: string, name: string): Promise<void> {
+    const source = entries.value.find(entry => entry.id === id)
+    if (!source) return
+
+    const setListName = sanitizeMetadataField(name) ?? ''
+    const state = JSON.parse(JSON.stringify(source.state))
+    state.metadata.setListName = setListName
+
+    try {
+      await putEntry({ ...source, updatedAt: Date.now(), state })
+      if (id === currentArchiveId.value) {
+        store.updateMetadata({ setListName })
+      }
+    } catch (err) {
+      await reportError(
+        'Rename Error',
+        'Failed to rename the set list. Please try again.',
+        err
+      )
+    }
+  }
+
+  /**
+   * Delete an archived set list after confirmation
+   */
+  async function remove(id: string): Promise<void> {
+    const entry = entries.value.find(e => e.id === id)
+    if (!entry) return
+
+    const confirmed = await confirmAction({
+      title: 'Delete Set List?',
+      message: `Delete "${entry.state.metadata.setListName || 'Untitled'}" from the library? This can't be undone.`,
+      confirmText: 'Delete',
+      danger: true
+    })
+    if (!confirmed) return
+
+    try {
+      await idbDelete(IDB_STORES.SET_LISTS, id)
+      entries.value = entries.value.filter(e => e.id !== id)
+      if (id === currentArchiveId.value) {
+        setCurrentArchiveId(null)
+      }
+    } catch (err) {
+      await reportError(
+        'Delete Error',
+        'Failed to delete the set list. Please try again.',
+        err
+      )
+    }
+  }
+
+  /**
+   * Detach the editor from its archive entry (used when starting a new set list
+   * or loading a file), so the next save creates a new entry.
+   */
+  function clearArchiveId(): void {
+    setCurrentArchiveId(null)
+  }
+
+  return {
+    isAvailable,
+    entries,
+    currentArchiveId,
+    refresh,
+    saveCurrent,
+    open,
+    duplicate,
+    rename,
+    remove,
+    clearArchiveId
+  }
+}
@@ -0,0 +1,94 @@
+import { computed, type Ref, type ComputedRef } from 'vue'
+import type { SetItem } from '@/stores/types'
+import {
+  getSetCoreDuration,
+  getSetDuration,
+  getSongDuration
+} from '@/stores/duration'
+
+/**
+ * Options for useSetTiming
+ */
+export interface SetTimingOptions {
+  /** The set to measure against its target length */
+  set: Ref<SetItem> | ComputedRef<SetItem>
+}
+
+/**
+ * Composable for set running time versus its target length.
+ * Shared by Set.vue and WysiwygSet.vue so both editors flag overruns the same way.
+ */
+export function useSetTiming(options: SetTimingOptions) {
+  const { set } = options
+
+  /**
+   * Total running time of the set in seconds, optional songs included.
+   * Targets are checked against this, so a full-length set still fits.
+   */
+  const setDuration = computed(() => getSetDuration(set.value))
+
+  /**
+   * Running time of the set in seconds without its optional songs.
+   */
+  const coreDuration = computed(() => getSetCoreDuration(set.value))
+
+  /**
+   * The planned set length in seconds, or null when no target is set.
+   */
+  const targetDuration = computed(() => set.value.targetDuration ?? null)
+
+  /**
+   * Seconds over (positive) or under (negative) the target.
+   * Null when no target is set.
+   */
+  const targetDelta = computed(() => {
+    if (targetDuration.value === null) return null
+    return setDuration.value - targetDuration.value
+  })
+
+  /**
+   * Whether the set runs longer than its target.
+   */
+  const isOverTarget = computed(
+    () => targetDelta.value !== null && targetDelta.value > 0
+  )
+
+  /**
+   * IDs of the songs that finish after the target time has passed,
+   * i.e. the song that tips the set over and everything after it.
+   */
+  const overTargetSongIds = computed(() => {
+    const ids = new Set<string>()
+    const target = targetDuration.value
+    if (target === null || !isOverTarget.value) return ids
+
+    let elapsed = 0
+    for (const song of set.value.songs) {
+      const duration = getSongDuration(song)
+      elapsed += duration
+      if (duration > 0 && elapsed > target) {
+        ids.add(song.id)
+      }
+    }
+    return ids
+  })
+
+  /**
+   * Check if a song finishes after the set's target time.
+   * @param songId - The ID of the song to check
+   * @returns true if the song pushes the set past its target
+   */
+  function isSongOverTarget(songId: string): boolean {
+    return overTargetSongIds.value.has(songId)
+  }
+
+  return {
+    setDuration,
+    coreDuration,
+    targetDuration,
+    targetDelta,
+    isOverTarget,
+    overTargetSongIds,
+    isSongOverTarget
+  }
+}
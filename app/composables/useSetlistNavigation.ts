@@ -1,5 +1,6 @@
 import { ref, computed, type Ref, nextTick } from 'vue'
-import { useSetlistStore, isEncoreMarkerSong } from '@/stores/store'
+import { useSetlistStore } from '@/stores/store'
+import { isMarkerSong } from '@/stores/encore'
 
 /**
  * Represents a focusable item in the setlist
@@ -71,16 +72,16 @@ export interface UseSetlistNavigationReturn {
 }
 
 /**
- * Get the number of playable (non-encore-marker) songs in a set
+ * Get the number of playable (non-marker) songs in a set
  */
 function getPlayableSongCount(sets: any[], setIndex: number): number {
   const set = sets[setIndex]
   if (!set) return 0
-  return set.songs.filter(song => !isEncoreMarkerSong(song)).length
+  return set.songs.filter(song => !isMarkerSong(song)).length
 }
 
 /**
- * Get the actual song index, skipping encore markers
+ * Get the actual song index, skipping encore and section markers
  * Returns -1 if the index is out of bounds
  */
 function getNextPlayableSongIndex(
@@ -97,7 +98,7 @@ function getNextPlayableSongIndex(
   let index = currentIndex + step
 
   while (index >= 0 && index < songs.length) {
-    if (!isEncoreMarkerSong(songs[index])) {
+    if (!isMarkerSong(songs[index])) {
       return index
     }
     index += step
@@ -112,7 +113,7 @@ function getNextPlayableSongIndex(
 function getFirstPlayableSongIndex(sets: any[], setIndex: number): number {
   const set = sets[setIndex]
   if (!set) return -1
-  return set.songs.findIndex((song: any) => !isEncoreMarkerSong(song))
+  return set.songs.findIndex((song: any) => !isMarkerSong(song))
 }
 
 /**
@@ -123,7 +124,7 @@ function getLastPlayableSongIndex(sets: any[], setIndex: number): number {
   if (!set) return -1
 
   for (let i = set.songs.length - 1; i >= 0; i--) {
-    if (!isEncoreMarkerSong(set.songs[i])) {
+    if (!isMarkerSong(set.songs[i])) {
       return i
     }
   }
@@ -139,7 +140,7 @@ function getPlayableSongIndices(sets: any[], setIndex: number): number[] {
 
   return set.songs
     .map((song: any, index: number) => ({ song, index }))
-    .filter(({ song }: any) => !isEncoreMarkerSong(song))
+    .filter(({ song }: any) => !isMarkerSong(song))
     .map(({ index }: any) => index)
 }
 
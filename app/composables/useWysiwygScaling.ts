@@ -1,14 +1,14 @@
 // import { computed, nextTick, ref, type Ref } from 'vue'
 import { fitStringsToBox } from '@/utils/fitStringsToBox'
 import { formatSongLabel } from '@/utils/textMetrics'
-import { BOX_HEIGHT_CM, BOX_WIDTH_CM, CM_TO_PX } from '@/constants'
-import { type SetItem, useSetlistStore } from '@/stores/store'
+import { CM_TO_PX } from '@/constants'
+import { useSetlistStore } from '@/stores/store'
+import type { SetItem } from '@/stores/types'
+import { usePageSetup } from './usePageSetup'
 
-export function useWysiwygScaling(
-  setRef: Ref<SetItem>,
-  isLastRef: Ref<boolean>
-) {
+export function useWysiwygScaling(setRef: Ref<SetItem>) {
   const store = useSetlistStore()
+  const { dimensions } = usePageSetup()
   const contentRef = ref<HTMLElement | null>(null)
   const scaleFactor = ref<number>(1)
   const lineHeight = ref<string>('1.5')
@@ -20,10 +20,16 @@ export function useWysiwygScaling(
     const set = setRef.value
     const strings = set.songs
       .map(song => {
-        if (song.isEncoreMarker || song.title === '<encore>') {
+        if (
+          song.isEncoreMarker ||
+          song.isSectionMarker ||
+          song.title === '<encore>'
+        ) {
           return '--------' // Estimate marker string length visually
         }
-        return formatSongLabel(song.title, song.key) || ' '
+        const label = formatSongLabel(song.title, song.key) || ' '
+        // Optional songs are printed in brackets
+        return song.isOptional ? `[${label}]` : label
       })
       .filter(Boolean)
 
@@ -33,19 +39,20 @@ export function useWysiwygScaling(
       return
     }
 
-    // The wysiwyg-paper uses A4 inner box size (BOX_HEIGHT_CM).
+    // The wysiwyg-paper uses the printable box of the user's page setup.
     // We only need to subtract the encore actions footprint.
     const songListPaddingCm = 0
     // The FirstTimeHint in Set 1 takes up approximately 2cm
     const firstTimeHintCm =
       setRef.value.id === store.state.sets[0]?.id && set.songs.length > 0 ? 2.0 : 0
-    const encoreHintCm = set.songs.length > 0 && isLastRef.value ? 1.5 : 0
+    const encoreHintCm = set.songs.length > 0 ? 1.5 : 0
     const usedHeightCm = songListPaddingCm + encoreHintCm + firstTimeHintCm
-    const availableHeightCm = Math.max(0, BOX_HEIGHT_CM - usedHeightCm)
+    const { boxWidthCm, boxHeightCm } = dimensions.value
+    const availableHeightCm = Math.max(0, boxHeightCm - usedHeightCm)
 
-    const result = fitStringsToBox(strings, BOX_WIDTH_CM, availableHeightCm)
+    const result = fitStringsToBox(strings, boxWidthCm, availableHeightCm)
 
-    // The fitStringsToBox returns a pixel font size based on A4 standard size (210mm wide).
+    // The fitStringsToBox returns a pixel font size for the real paper size.
     // We'll expose this directly as a px value so it scales dynamically when the paper itself is scaled.
     scaleFactor.value = result.fontSizePx
     lineHeight.value = result.lineHeight.toString()
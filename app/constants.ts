@@ -1,5 +1,7 @@
 // =============================================================================
-// Page Dimensions (A4)
+// Default Page Dimensions (A4)
+// The user's page setup (utils/pageSetup.ts) can change the paper size,
+// orientation and margins; these are the defaults.
 // =============================================================================
 
 /** Conversion factor: 1 cm ≈ 37.795 px */
@@ -15,7 +17,7 @@ export const TARGET_WIDTH_CM = 21.0;
 // Page Margins
 // =============================================================================
 
-/** Page margins in centimeters */
+/** Default page margins in centimeters */
 export const MARGINS_CM = {
 	top: 1,
 	bottom: 1,
@@ -59,7 +61,7 @@ export const MAX_LINE_HEIGHT = 1.8;
 
 /** Default font family stack used throughout the application */
 export const DEFAULT_FONT_FAMILY =
-	"Inter, system-ui, Avenir, Helvetica, Arial, sans-serif";
+	"Inter, system-ui, Avenir, Helvetica, Arial, NotoMusic, sans-serif";
 
 // =============================================================================
 // Storage Keys
@@ -77,6 +79,26 @@ export const STORAGE_KEYS = {
 	EDITOR_NUMBERING: "set-lister-editor-numbering",
 	/** Key for storing song numbering preference in preview */
 	PREVIEW_NUMBERING: "set-lister-preview-numbering",
+	/** Key for storing the set/show duration preference in preview */
+	PREVIEW_DURATIONS: "set-lister-preview-durations",
+	/** Key for storing the per-song start time preference in preview */
+	PREVIEW_SONG_TIMES: "set-lister-preview-song-times",
+	/** Key for storing the song notes preference in preview */
+	PREVIEW_NOTES: "set-lister-preview-notes",
+	/** Key for storing the lowercase minor keys preference in preview */
+	PREVIEW_LOWERCASE_MINOR: "set-lister-preview-lowercase-minor",
+	/** Key for storing the band's song library (shared by every set list) */
+	LIBRARY: "set-lister-library",
+	/** Key for storing whether new song titles are saved to the library */
+	LIBRARY_AUTO_ADD: "set-lister-library-auto-add",
+	/** Key for storing the log of performed gigs (play history) */
+	GIG_LOG: "set-lister-gig-log",
+	/** Key for storing which document library entry the current set list belongs to */
+	ARCHIVE_ID: "set-lister-archive-id",
+	/** Key for storing the paper size, orientation and margins */
+	PAGE_SETUP: "set-lister-page-setup",
+	/** Key for storing how many copies of each print profile to print */
+	PRINT_COPIES: "set-lister-print-copies",
 	/** Key for storing the current editor mode (classic vs wysiwyg) */
 	EDITOR_MODE: "set-lister-editor-mode",
 } as const;
@@ -8,6 +8,26 @@ export const LIMITS = {
   MAX_SONG_KEY_LENGTH: 20,
   MAX_SET_NAME_LENGTH: 100,
   MAX_METADATA_FIELD_LENGTH: 500,
+  MAX_SONG_NOTES_LENGTH: 500,
+  MAX_SONG_CUE_LENGTH: 200,
+
+  // Duration limits (in seconds)
+  MAX_SONG_DURATION_SECS: 3 * 60 * 60,
+  MAX_SET_TARGET_DURATION_SECS: 6 * 60 * 60,
+  MAX_SET_INTERVAL_SECS: 3 * 60 * 60,
+
+  // Tempo limits (in beats per minute)
+  MIN_SONG_TEMPO_BPM: 20,
+  MAX_SONG_TEMPO_BPM: 400,
+
+  // Page setup limits (in centimeters)
+  MIN_PAPER_SIZE_CM: 5,
+  MAX_PAPER_SIZE_CM: 120,
+  MAX_PAGE_MARGIN_CM: 5,
+  MIN_PRINTABLE_SIZE_CM: 2,
+
+  // Print limits
+  MAX_PRINT_COPIES: 20,
 
   // History limits
   HISTORY_CAPACITY: 100,
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import { checkCurfew, suggestSongsToDrop } from '@/stores/curfew'
+import { buildSchedule } from '@/stores/schedule'
+import { createEncoreMarker, createSectionMarker } from '@/stores/encore'
+import type { SetItem } from '@/stores/types'
+import { createMockSet, createMockSong } from '@/__tests__/mockData'
+
+function droppedIds(sets: SetItem[], overrun: number): string[] {
+  return suggestSongsToDrop(sets, overrun).map(({ songId }) => songId)
+}
+
+describe('curfew', () => {
+  describe('suggestSongsToDrop', () => {
+    const sets = [
+      createMockSet('set-1', [
+        createMockSong('Jolene', { duration: 300 }),
+        createMockSong('Valerie', { duration: 120, isOptional: true }),
+        createMockSong('Hey Jude', { duration: 200 })
+      ]),
+      createMockSet('set-2', [
+        createMockSong('Mr Brightside', { duration: 200 }),
+        createMockSong('Wonderwall', { duration: 60, isOptional: true })
+      ])
+    ]
+
+    it('should suggest nothing when the show fits', () => {
+      expect(suggestSongsToDrop(sets, 0)).toEqual([])
+      expect(suggestSongsToDrop(sets, -120)).toEqual([])
+    })
+
+    it('should drop optional songs first, longest first', () => {
+      expect(droppedIds(sets, 100)).toEqual(['Valerie'])
+      expect(droppedIds(sets, 150)).toEqual(['Valerie', 'Wonderwall'])
+    })
+
+    it('should then drop the longest songs', () => {
+      expect(droppedIds(sets, 400)).toEqual(['Jolene', 'Valerie'])
+    })
+
+    it('should prefer the later song when lengths tie', () => {
+      const tied = [
+        createMockSet('set-1', [
+          createMockSong('Hey Jude', { duration: 200 }),
+          createMockSong('Mr Brightside', { duration: 200 })
+        ])
+      ]
+      expect(droppedIds(tied, 150)).toEqual(['Mr Brightside'])
+    })
+
+    it('should put back optional songs that turn out not to be needed', () => {
+      const withShortOptional = [
+        createMockSet('set-1', [
+          createMockSong('Jolene', { duration: 300 }),
+          createMockSong('Valerie', { duration: 60, isOptional: true })
+        ])
+      ]
+      expect(droppedIds(withShortOptional, 300)).toEqual(['Jolene'])
+    })
+
+    it('should stop once the songs dropped exactly cover the overrun', () => {
+      const suggestions = suggestSongsToDrop(sets, 180)
+      expect(suggestions.map(({ songId }) => songId)).toEqual([
+        'Valerie',
+        'Wonderwall'
+      ])
+      expect(suggestions[0]).toEqual({
+        setId: 'set-1',
+        songId: 'Valerie',
+        duration: 120,
+        isOptional: true
+      })
+    })
+
+    it('should skip markers, running-order items and songs with no length', () => {
+      const withMarkers = [
+        createMockSet('set-1', [
+          createSectionMarker('Acoustic'),
+          createMockSong('Intro', { duration: 500, itemType: 'spoken-intro' }),
+          createMockSong('Jolene'),
+          createEncoreMarker(),
+          createMockSong('Valerie', { duration: 100 })
+        ])
+      ]
+      expect(droppedIds(withMarkers, 400)).toEqual(['Valerie'])
+    })
+  })
+
+  describe('checkCurfew', () => {
+    const sets = [
+      createMockSet(
+        'set-1',
+        [
+          createMockSong('Jolene', { duration: 1800 }),
+          createMockSong('Valerie', { duration: 600, isOptional: true })
+        ],
+        { intervalAfter: 900 }
+      ),
+      createMockSet('set-2', [createMockSong('Hey Jude', { duration: 1800 })])
+    ]
+
+    function check(startTime?: string, curfew?: string) {
+      return checkCurfew(sets, buildSchedule(sets, startTime), startTime, curfew)
+    }
+
+    it('should return null without a start time or curfew', () => {
+      expect(check(undefined, '23:00')).toBeNull()
+      expect(check('20:00', undefined)).toBeNull()
+      expect(check('20:00', 'late')).toBeNull()
+    })
+
+    it('should suggest nothing when the show ends by the curfew', () => {
+      // 20:00 + 40min + 15min break + 30min = 21:25
+      const result = check('20:00', '21:25')
+      expect(result).toMatchObject({ overrun: 0, suggestions: [] })
+      expect(result?.suggestionsFit).toBe(true)
+    })
+
+    it('should suggest songs to drop when the show runs over', () => {
+      const result = check('20:00', '21:15')
+      expect(result?.overrun).toBe(600)
+      expect(result?.suggestions.map(({ songId }) => songId)).toEqual([
+        'Valerie'
+      ])
+      expect(result?.suggestionsFit).toBe(true)
+    })
+
+    it('should treat a curfew before the start time as after midnight', () => {
+      const result = check('23:00', '00:15')
+      expect(result?.curfewTime).toBe(24 * 3600 + 15 * 60)
+      expect(result?.endTime).toBe(24 * 3600 + 25 * 60)
+      expect(result?.overrun).toBe(600)
+    })
+
+    it('should say when dropping every song still misses the curfew', () => {
+      // The break alone runs past a curfew this early
+      const result = check('20:00', '20:05')
+      expect(result?.suggestions).toHaveLength(3)
+      expect(result?.suggestionsFit).toBe(false)
+    })
+  })
+})
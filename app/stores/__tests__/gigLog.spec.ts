@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useGigLogStore } from '@/stores/gigLog'
+import { useSetlistStore } from '@/stores/store'
+
+describe('gig log store', () => {
+  let gigLog: ReturnType<typeof useGigLogStore>
+  let store: ReturnType<typeof useSetlistStore>
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    gigLog = useGigLogStore()
+    store = useSetlistStore()
+    store.resetStore()
+
+    const setId = store.state.sets[0]?.id ?? ''
+    store.addSongToSet(setId, { title: 'Jolene' })
+    store.updateMetadata({
+      setListName: 'Summer Party',
+      venue: 'The Crown',
+      date: '2026-07-04'
+    })
+  })
+
+  // What the Mark as Performed button does
+  function markAsPerformed() {
+    const entry = gigLog.logGig(store.state)
+    if (entry) store.updateMetadata({ gigId: entry.id })
+    return entry
+  }
+
+  it('should not log a set list without a date', () => {
+    store.updateMetadata({ date: '' })
+    expect(gigLog.logGig(store.state)).toBeNull()
+    expect(gigLog.gigs).toHaveLength(0)
+  })
+
+  it('should find a logged gig by its id, not its details', () => {
+    const entry = markAsPerformed()
+    expect(gigLog.findGig(store.state.metadata)?.id).toBe(entry?.id)
+
+    store.updateMetadata({ venue: 'The Anchor', date: '2026-07-05' })
+    expect(gigLog.findGig(store.state.metadata)?.id).toBe(entry?.id)
+  })
+
+  it('should replace the entry when logged again after editing the details', () => {
+    const entry = markAsPerformed()
+    store.updateMetadata({ setListName: 'Summer Party (Late)' })
+    markAsPerformed()
+
+    expect(gigLog.gigs).toHaveLength(1)
+    expect(gigLog.gigs[0]).toMatchObject({
+      id: entry?.id,
+      setListName: 'Summer Party (Late)'
+    })
+  })
+
+  it('should keep separate entries for different set lists on the same night', () => {
+    markAsPerformed()
+    store.updateMetadata({ gigId: '' })
+    markAsPerformed()
+
+    expect(gigLog.gigs).toHaveLength(2)
+  })
+
+  it('should remove a gig so it no longer counts as played', () => {
+    const entry = markAsPerformed()
+    expect(gigLog.getLastPlayed({ title: 'Jolene' })).not.toBeNull()
+
+    gigLog.removeGig(entry?.id ?? '')
+    expect(gigLog.findGig(store.state.metadata)).toBeUndefined()
+    expect(gigLog.getLastPlayed({ title: 'Jolene' })).toBeNull()
+  })
+})
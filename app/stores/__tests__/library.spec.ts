@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useLibraryStore } from '@/stores/library'
+
+describe('library store', () => {
+  let library: ReturnType<typeof useLibraryStore>
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    library = useLibraryStore()
+  })
+
+  describe('updateSong', () => {
+    it('should change only the given fields', () => {
+      const song = library.addSong({ title: 'Jolene', key: 'E', duration: 160 })
+      library.updateSong(song.id, { title: '  Jolene (Live) ', notes: 'Capo 4' })
+
+      expect(library.getSong(song.id)).toMatchObject({
+        title: 'Jolene (Live)',
+        key: 'E',
+        duration: 160,
+        notes: 'Capo 4'
+      })
+    })
+
+    it('should clear a field set to undefined', () => {
+      const song = library.addSong({ title: 'Jolene', key: 'E', duration: 160 })
+      library.updateSong(song.id, { key: '', duration: undefined })
+
+      expect(library.getSong(song.id)?.key).toBeFalsy()
+      expect(library.getSong(song.id)?.duration).toBeUndefined()
+    })
+  })
+
+  describe('removeSong', () => {
+    it('should remove the song so its title can be added again', () => {
+      const song = library.addSong({ title: 'Jolene' })
+      library.removeSong(song.id)
+
+      expect(library.songs).toHaveLength(0)
+      expect(library.addSong({ title: 'Jolene' }).id).not.toBe(song.id)
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { buildSchedule } from '@/stores/schedule'
+import { createEncoreMarker, createSectionMarker } from '@/stores/encore'
+import { createMockSet, createMockSong } from '@/__tests__/mockData'
+
+const HOUR = 3600
+
+describe('buildSchedule', () => {
+  const sets = [
+    createMockSet(
+      'set-1',
+      [
+        createMockSong('Jolene', { duration: 200 }),
+        createMockSong('Valerie', { duration: 220 })
+      ],
+      { intervalAfter: 900 }
+    ),
+    createMockSet('set-2', [
+      createMockSong('Mr Brightside', { duration: 240 }),
+      createMockSong('Hey Jude', { duration: 420 })
+    ])
+  ]
+
+  it('should return null without a valid start time', () => {
+    expect(buildSchedule(sets, undefined)).toBeNull()
+    expect(buildSchedule(sets, '')).toBeNull()
+    expect(buildSchedule(sets, '25:00')).toBeNull()
+  })
+
+  it('should time each song from the show start', () => {
+    const schedule = buildSchedule(sets, '20:00')
+    const start = 20 * HOUR
+
+    expect(schedule?.['set-1']).toEqual({
+      startTime: start,
+      endTime: start + 420,
+      songStartTimes: { Jolene: start, Valerie: start + 200 }
+    })
+  })
+
+  it('should start the next set after the break', () => {
+    const schedule = buildSchedule(sets, '20:00')
+    const secondStart = 20 * HOUR + 420 + 900
+
+    expect(schedule?.['set-2']).toEqual({
+      startTime: secondStart,
+      endTime: secondStart + 660,
+      songStartTimes: {
+        'Mr Brightside': secondStart,
+        'Hey Jude': secondStart + 240
+      }
+    })
+  })
+
+  it('should give markers no time and count songs without a length as zero', () => {
+    const schedule = buildSchedule(
+      [
+        createMockSet('set-1', [
+          createSectionMarker('Acoustic'),
+          createMockSong('Jolene', { duration: 200 }),
+          createMockSong('Valerie'),
+          createEncoreMarker(),
+          createMockSong('Hey Jude', { duration: 420 })
+        ])
+      ],
+      '20:00'
+    )
+
+    expect(schedule?.['set-1']?.songStartTimes).toEqual({
+      Jolene: 20 * HOUR,
+      Valerie: 20 * HOUR + 200,
+      'Hey Jude': 20 * HOUR + 200
+    })
+    expect(schedule?.['set-1']?.endTime).toBe(20 * HOUR + 620)
+  })
+
+  it('should skip empty sets and the break after them', () => {
+    const schedule = buildSchedule(
+      [
+        createMockSet('set-1', [createEncoreMarker()], { intervalAfter: 900 }),
+        createMockSet('set-2', [createMockSong('Jolene', { duration: 200 })])
+      ],
+      '20:00'
+    )
+
+    expect(Object.keys(schedule ?? {})).toEqual(['set-2'])
+    expect(schedule?.['set-2']?.startTime).toBe(20 * HOUR)
+  })
+
+  it('should keep counting past midnight', () => {
+    const schedule = buildSchedule(sets, '23:55')
+    expect(schedule?.['set-2']?.endTime).toBe(
+      23 * HOUR + 55 * 60 + 420 + 900 + 660
+    )
+  })
+})
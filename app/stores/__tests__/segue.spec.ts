@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import {
+  getIntactSegueIds,
+  getSegueStatus,
+  getSegueTarget
+} from '@/stores/segue'
+import { useSetlistStore } from '@/stores/store'
+import { createEncoreMarker, createRunningOrderItem } from '@/stores/encore'
+import type { SetItem } from '@/stores/types'
+import { createMockSet, createMockSong } from '@/__tests__/mockData'
+
+describe('segues', () => {
+  describe('getSegueTarget', () => {
+    it('should be the next song in the set', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene'),
+        createMockSong('Valerie')
+      ])
+      expect(getSegueTarget(set, 0)?.id).toBe('Valerie')
+      expect(getSegueTarget(set, 1)).toBeUndefined()
+    })
+
+    it('should not cross an encore marker or running-order item', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene'),
+        createEncoreMarker(),
+        createMockSong('Valerie'),
+        createRunningOrderItem('changeover'),
+        createMockSong('Hey Jude')
+      ])
+      expect(getSegueTarget(set, 0)).toBeUndefined()
+      expect(getSegueTarget(set, 2)).toBeUndefined()
+    })
+  })
+
+  describe('getSegueStatus', () => {
+    it('should be none for a song without a segue', () => {
+      const set = createMockSet('set-1', [createMockSong('Jolene')])
+      expect(getSegueStatus(set, 0)).toBe('none')
+      expect(getSegueStatus(set, 5)).toBe('none')
+    })
+
+    it('should be intact while the target follows the song', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene', { segueTo: 'Valerie' }),
+        createMockSong('Valerie')
+      ])
+      expect(getSegueStatus(set, 0)).toBe('intact')
+    })
+
+    it('should be broken once another song comes between them', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene', { segueTo: 'Valerie' }),
+        createMockSong('Hey Jude'),
+        createMockSong('Valerie')
+      ])
+      expect(getSegueStatus(set, 0)).toBe('broken')
+    })
+
+    it('should be broken when the target is gone or behind an encore marker', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene', { segueTo: 'Valerie' }),
+        createEncoreMarker(),
+        createMockSong('Valerie'),
+        createMockSong('Hey Jude', { segueTo: 'Wonderwall' })
+      ])
+      expect(getSegueStatus(set, 0)).toBe('broken')
+      expect(getSegueStatus(set, 3)).toBe('broken')
+    })
+  })
+
+  describe('getIntactSegueIds', () => {
+    it('should list only the songs whose segue still holds', () => {
+      const set = createMockSet('set-1', [
+        createMockSong('Jolene', { segueTo: 'Valerie' }),
+        createMockSong('Valerie', { segueTo: 'Hey Jude' }),
+        createMockSong('Mr Brightside'),
+        createMockSong('Hey Jude')
+      ])
+      expect([...getIntactSegueIds(set)]).toEqual(['Jolene'])
+    })
+  })
+
+  describe('in the store', () => {
+    let store: ReturnType<typeof useSetlistStore>
+
+    function firstSet(): SetItem {
+      const set = store.state.sets[0]
+      if (!set) throw new Error('Store has no sets')
+      return set
+    }
+
+    function statuses(set: SetItem): string[] {
+      return set.songs.map((_, index) => getSegueStatus(set, index))
+    }
+
+    beforeEach(() => {
+      localStorage.clear()
+      setActivePinia(createPinia())
+      store = useSetlistStore()
+      store.resetStore()
+
+      const set = firstSet()
+      store.addSongToSet(set.id, { title: 'Jolene' })
+      store.addSongToSet(set.id, { title: 'Valerie' })
+      store.addSongToSet(set.id, { title: 'Hey Jude' })
+      store.toggleSegue(set.id, set.songs[0]?.id ?? '')
+    })
+
+    it('should link a segue to the song that follows', () => {
+      expect(statuses(firstSet())).toEqual(['intact', 'none', 'none'])
+    })
+
+    it('should break the segue when reorderSong splits the songs', () => {
+      const set = firstSet()
+      store.reorderSong(set.id, 2, 1)
+      expect(statuses(set)).toEqual(['broken', 'none', 'none'])
+
+      store.reorderSong(set.id, 1, 2)
+      expect(statuses(set)).toEqual(['intact', 'none', 'none'])
+    })
+
+    it('should break the segue when moveSong takes its target to another set', () => {
+      const from = firstSet()
+      store.addSet()
+      const to = store.state.sets[1] as SetItem
+
+      store.moveSong(from.id, to.id, 1, 0)
+      expect(statuses(from)).toEqual(['broken', 'none'])
+      expect(getIntactSegueIds(from).size).toBe(0)
+    })
+
+    it('should clear a broken segue when toggled', () => {
+      const set = firstSet()
+      const song = set.songs[0]
+      store.reorderSong(set.id, 2, 1)
+      store.toggleSegue(set.id, song?.id ?? '')
+
+      expect(song?.segueTo).toBeUndefined()
+      expect(statuses(set)).toEqual(['none', 'none', 'none'])
+    })
+  })
+})
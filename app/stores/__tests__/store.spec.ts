@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSetlistStore } from '@/stores/store'
+import { useGigLogStore } from '@/stores/gigLog'
+import { getEncoreBreaks, isEncoreMarkerSong } from '@/stores/encore'
+import type { SetItem } from '@/stores/types'
+import { parsePlainTextSetList } from '@/utils/plainTextImport'
+import { parseCsv } from '@/utils/csv'
+import { csvRowsToSets, guessColumnMapping } from '@/utils/setListCsv'
+
+describe('setlist store', () => {
+  let store: ReturnType<typeof useSetlistStore>
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    store = useSetlistStore()
+    store.resetStore()
+  })
+
+  function firstSet(): SetItem {
+    const set = store.state.sets[0]
+    if (!set) throw new Error('Store has no sets')
+    return set
+  }
+
+  describe('replaceSets', () => {
+    beforeEach(() => {
+      store.updateMetadata({ setListName: 'Summer Party' })
+      store.markClean()
+    })
+
+    it('should leave imported text as unsaved changes', () => {
+      const { sets } = parsePlainTextSetList('Jolene (E)\nValerie\n\nHey Jude')
+      store.replaceSets(sets)
+
+      expect(store.state.sets.map(set => set.songs.length)).toEqual([2, 1])
+      expect(store.state.metadata.setListName).toBe('Summer Party')
+      expect(store.isDirty).toBe(true)
+    })
+
+    it('should leave an imported CSV as unsaved changes', () => {
+      const [header = [], ...rows] = parseCsv('Set,Title\n1,Jolene\n2,Valerie')
+      store.replaceSets(csvRowsToSets(rows, guessColumnMapping(header)))
+
+      expect(store.state.sets).toHaveLength(2)
+      expect(store.isDirty).toBe(true)
+    })
+
+    it('should detach the set list from its gig log entry', () => {
+      const gigLog = useGigLogStore()
+      store.addSongToSet(firstSet().id, { title: 'Jolene' })
+      store.updateMetadata({ date: '2026-07-04' })
+      const entry = gigLog.logGig(store.state)
+      store.updateMetadata({ gigId: entry?.id })
+
+      const { sets } = parsePlainTextSetList('Valerie')
+      store.replaceSets(sets)
+
+      expect(store.state.metadata.gigId).toBe('')
+      expect(gigLog.findGig(store.state.metadata)).toBeUndefined()
+      expect(gigLog.gigs[0]?.songs.map(song => song.title)).toEqual(['Jolene'])
+    })
+  })
+
+  describe('transposeSets', () => {
+    beforeEach(() => {
+      const setId = firstSet().id
+      store.addSongToSet(setId, { title: 'Jolene', key: 'C#m' })
+      store.addSongToSet(setId, { title: 'Valerie', key: 'Capo 2' })
+      store.addSongToSet(setId, { title: 'Hey Jude' })
+      store.addSongToSet(setId, { title: 'Wonderwall', key: 'F#m' })
+      store.addSet()
+      store.addSongToSet(store.state.sets[1]?.id ?? '', { title: 'Mr Brightside', key: 'Db' })
+    })
+
+    function keys(): (string | undefined)[] {
+      return store.state.sets.flatMap(set => set.songs.map(song => song.key))
+    }
+
+    it('should move every readable key and count the songs changed', () => {
+      const changed = store.transposeSets(store.state.sets.map(set => set.id), 2)
+
+      expect(changed).toBe(3)
+      expect(keys()).toEqual(['D#m', 'Capo 2', undefined, 'G#m', 'Eb'])
+    })
+
+    it('should leave keys it can\'t read and empty keys alone', () => {
+      const changed = store.transposeSets([firstSet().id], -1)
+
+      expect(changed).toBe(2)
+      expect(firstSet().songs.map(song => song.key)).toEqual([
+        'Cm',
+        'Capo 2',
+        undefined,
+        'Fm'
+      ])
+    })
+
+    it('should only touch the chosen sets', () => {
+      expect(store.transposeSets([store.state.sets[1]?.id ?? ''], 12)).toBe(0)
+      expect(keys()).toEqual(['C#m', 'Capo 2', undefined, 'F#m', 'Db'])
+    })
+  })
+
+  describe('encore markers', () => {
+    beforeEach(() => {
+      const setId = firstSet().id
+      store.addSongToSet(setId, { title: 'Jolene' })
+      store.addSongToSet(setId, { title: 'Valerie' })
+      store.addEncoreMarker(setId)
+      store.addEncoreMarker(setId)
+      store.addSet()
+    })
+
+    function markerCount(set: SetItem): number {
+      return set.songs.filter(isEncoreMarkerSong).length
+    }
+
+    it('should keep a set\'s encore markers when its songs are moved out and back', () => {
+      const from = firstSet()
+      const to = store.state.sets[1] as SetItem
+
+      store.moveSong(from.id, to.id, 0, 0)
+      store.moveSong(from.id, to.id, 0, 1)
+      expect(markerCount(from)).toBe(2)
+
+      store.moveSong(to.id, from.id, 0, 0)
+      store.moveSong(to.id, from.id, 0, 1)
+      expect(getEncoreBreaks(from).map(({ label }) => label)).toEqual([
+        'Encore 1',
+        'Encore 2'
+      ])
+    })
+
+    it('should keep encore markers when the last song is removed', () => {
+      const set = firstSet()
+      for (const song of set.songs.filter(song => !isEncoreMarkerSong(song))) {
+        store.removeSongFromSet(set.id, song.id)
+      }
+      expect(set.songs).toHaveLength(2)
+      expect(markerCount(set)).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import type { SetItem } from './types'
+import type { SetSchedule } from './schedule'
+import { isPlayableSong } from './encore'
+import { getSongDuration } from './duration'
+import { parseClockTime } from '@/utils/utils'
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+export interface DropSuggestion {
+  setId: string
+  songId: string
+  /** Song length in seconds */
+  duration: number
+  /** Whether the song is already flagged as optional */
+  isOptional: boolean
+}
+
+export interface CurfewCheck {
+  /** Curfew in seconds since midnight, moved to the next day if it falls before the start */
+  curfewTime: number
+  /** Clock time the last set finishes, in seconds since midnight */
+  endTime: number
+  /** Seconds the show runs past the curfew; zero or negative when it fits */
+  overrun: number
+  /** Songs that could be dropped to finish by the curfew (empty when it fits) */
+  suggestions: DropSuggestion[]
+  /** Whether dropping every suggestion is enough to make the curfew */
+  suggestionsFit: boolean
+}
+
+/**
+ * Pick songs to cut so the show loses at least `overrun` seconds.
+ * Optional songs go first. After that it favours the fewest songs: longest
+ * songs first, later songs first on a tie, then any pick that isn't needed
+ * after all is put back.
+ */
+export function suggestSongsToDrop(
+  sets: SetItem[],
+  overrun: number
+): DropSuggestion[] {
+  if (overrun <= 0) return []
+
+  const candidates: (DropSuggestion & { order: number })[] = []
+  sets.forEach(set => {
+    set.songs.forEach(song => {
+      const duration = getSongDuration(song)
+      if (!isPlayableSong(song) || duration <= 0) return
+      candidates.push({
+        setId: set.id,
+        songId: song.id,
+        duration,
+        isOptional: song.isOptional === true,
+        order: candidates.length
+      })
+    })
+  })
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.isOptional) - Number(a.isOptional) ||
+      b.duration - a.duration ||
+      b.order - a.order
+  )
+
+  const picked: typeof candidates = []
+  let saved = 0
+  for (const candidate of candidates) {
+    if (saved >= overrun) break
+    picked.push(candidate)
+    saved += candidate.duration
+  }
+
+  // Greedy picks can overshoot; return the smallest ones we can do without
+  for (let i = picked.length - 1; i >= 0; i--) {
+    const candidate = picked[i]
+    if (candidate && saved - candidate.duration >= overrun) {
+      picked.splice(i, 1)
+      saved -= candidate.duration
+    }
+  }
+
+  return picked
+    .sort((a, b) => a.order - b.order)
+    .map(({ order: _order, ...suggestion }) => suggestion)
+}
+
+/**
+ * Compare the end of the running order against the curfew.
+ *
+ * @returns The check result, or null when there is no start time or curfew
+ */
+export function checkCurfew(
+  sets: SetItem[],
+  schedule: Record<string, SetSchedule> | null,
+  startTime: string | undefined,
+  curfew: string | undefined
+): CurfewCheck | null {
+  const start = parseClockTime(startTime)
+  let curfewTime = parseClockTime(curfew)
+  if (!schedule || start === undefined || curfewTime === undefined) return null
+
+  // A curfew at or before the start time means after midnight
+  if (curfewTime <= start) curfewTime += SECONDS_PER_DAY
+
+  const endTime = Object.values(schedule).reduce(
+    (latest, setSchedule) => Math.max(latest, setSchedule.endTime),
+    start
+  )
+  const overrun = endTime - curfewTime
+  const suggestions = suggestSongsToDrop(sets, overrun)
+  const saved = suggestions.reduce((acc, song) => acc + song.duration, 0)
+
+  return {
+    curfewTime,
+    endTime,
+    overrun,
+    suggestions,
+    suggestionsFit: saved >= overrun
+  }
+}
@@ -0,0 +1,28 @@
+import type { Song, SetItem } from './types'
+import { isMarkerSong } from './encore'
+
+export function getSongDuration(song: Song | undefined): number {
+  if (!song || isMarkerSong(song)) return 0
+  return song.duration ?? 0
+}
+
+/** Max running time of a set: every song, optional ones included */
+export function getSetDuration(set: SetItem): number {
+  return set.songs.reduce((acc, song) => acc + getSongDuration(song), 0)
+}
+
+/** Core running time of a set: optional songs left out */
+export function getSetCoreDuration(set: SetItem): number {
+  return set.songs.reduce(
+    (acc, song) => acc + (song.isOptional ? 0 : getSongDuration(song)),
+    0
+  )
+}
+
+export function getSetsDuration(sets: SetItem[]): number {
+  return sets.reduce((acc, set) => acc + getSetDuration(set), 0)
+}
+
+export function getSetsCoreDuration(sets: SetItem[]): number {
+  return sets.reduce((acc, set) => acc + getSetCoreDuration(set), 0)
+}
@@ -1,6 +1,23 @@
-import type { Song, SetItem } from './types'
+import type { RunningOrderItemType, Song, SetItem } from './types'
 
 const ENCORE_MARKER_TITLE = '<encore>'
+const DEFAULT_SECTION_TITLE = 'New section'
+
+/**
+ * Things in the running order that aren't songs. Like the encore marker they
+ * sit among the songs and can be dragged about, but they're left out of
+ * song numbering and counts; unlike it they take stage time and print.
+ */
+export const RUNNING_ORDER_ITEM_TYPES: readonly {
+  type: RunningOrderItemType
+  label: string
+}[] = [
+  { type: 'spoken-intro', label: 'Spoken intro' },
+  { type: 'backing-track', label: 'Backing track intro' },
+  { type: 'changeover', label: 'Guitar changeover' },
+  { type: 'band-intros', label: 'Band intros' },
+  { type: 'raffle', label: 'Raffle' }
+]
 
 export function isEncoreMarkerSong(song: Song | undefined): boolean {
   if (!song) return false
@@ -16,17 +33,147 @@ export function createEncoreMarker(): Song {
   }
 }
 
+/**
+ * Section markers split a long set into named parts, e.g. an acoustic
+ * section or a medley. Like the encore marker they're dividers, not part of
+ * the running order.
+ */
+export function isSectionMarkerSong(song: Song | undefined): boolean {
+  return song?.isSectionMarker === true
+}
+
+export function createSectionMarker(title = DEFAULT_SECTION_TITLE): Song {
+  return {
+    id: crypto.randomUUID(),
+    title,
+    isSectionMarker: true
+  }
+}
+
+/** An encore or section marker */
+export function isMarkerSong(song: Song | undefined): boolean {
+  return isEncoreMarkerSong(song) || isSectionMarkerSong(song)
+}
+
+export function isRunningOrderItemType(
+  value: unknown
+): value is RunningOrderItemType {
+  return RUNNING_ORDER_ITEM_TYPES.some(({ type }) => type === value)
+}
+
+export function isRunningOrderItem(song: Song | undefined): boolean {
+  return isRunningOrderItemType(song?.itemType)
+}
+
+/** A real song: neither a marker nor a running-order item */
+export function isPlayableSong(song: Song | undefined): boolean {
+  return song !== undefined && !isMarkerSong(song) && !isRunningOrderItem(song)
+}
+
+export function getRunningOrderItemLabel(type: RunningOrderItemType): string {
+  return RUNNING_ORDER_ITEM_TYPES.find(item => item.type === type)?.label ?? type
+}
+
+export function createRunningOrderItem(type: RunningOrderItemType): Song {
+  return {
+    id: crypto.randomUUID(),
+    title: getRunningOrderItemLabel(type),
+    itemType: type
+  }
+}
+
+/** One encore break in a set, starting at an encore marker */
+export interface EncoreBreak {
+  markerId: string
+  /** "Encores", or "Encore 1", "Encore 2"... when the set has more than one */
+  label: string
+  /** The song the divider prints above; undefined while nothing follows the marker */
+  firstSongId: string | undefined
+}
+
+/**
+ * The encore breaks in a set, in order. Any set can have several, so a
+ * double encore, or a festival slot's encore mid-list, gets a divider each.
+ */
+export function getEncoreBreaks(set: SetItem): EncoreBreak[] {
+  const markerCount = set.songs.filter(isEncoreMarkerSong).length
+  const breaks: EncoreBreak[] = []
+  set.songs.forEach((song, index) => {
+    if (!isEncoreMarkerSong(song)) return
+    // Section markers straight after the break don't count as its first song
+    const next = set.songs
+      .slice(index + 1)
+      .find(entry => !isSectionMarkerSong(entry))
+    breaks.push({
+      markerId: song.id,
+      label: markerCount > 1 ? `Encore ${breaks.length + 1}` : 'Encores',
+      firstSongId: next && !isEncoreMarkerSong(next) ? next.id : undefined
+    })
+  })
+  return breaks
+}
+
+/**
+ * Divider labels keyed by the id of the song each divider goes above.
+ */
+export function getEncoreDividers(set: SetItem): Map<string, string> {
+  const dividers = new Map<string, string>()
+  getEncoreBreaks(set).forEach(({ label, firstSongId }) => {
+    if (firstSongId) dividers.set(firstSongId, label)
+  })
+  return dividers
+}
+
+/**
+ * Every divider label keyed by the id of the song it goes above: encore
+ * breaks and section names, in running order. Markers with nothing after
+ * them have no divider.
+ */
+export function getSetDividers(set: SetItem): Map<string, string[]> {
+  const encoreLabels = new Map(
+    getEncoreBreaks(set)
+      .filter(({ firstSongId }) => firstSongId)
+      .map(({ markerId, label }) => [markerId, label])
+  )
+  const dividers = new Map<string, string[]>()
+  let pending: string[] = []
+  set.songs.forEach(song => {
+    if (isEncoreMarkerSong(song)) {
+      const label = encoreLabels.get(song.id)
+      if (label) pending.push(label)
+    } else if (isSectionMarkerSong(song)) {
+      pending.push(song.title)
+    } else if (pending.length > 0) {
+      dividers.set(song.id, pending)
+      pending = []
+    }
+  })
+  return dividers
+}
+
 export function findEncoreMarkerIndex(set: SetItem): number {
   return set.songs.findIndex(song => isEncoreMarkerSong(song))
 }
 
 export function countPlayableSongs(set: SetItem): number {
   return set.songs.reduce(
-    (acc, song) => acc + (isEncoreMarkerSong(song) ? 0 : 1),
+    (acc, song) => acc + (isPlayableSong(song) ? 1 : 0),
     0
   )
 }
 
+/**
+ * Song numbers as printed, keyed by song id. Only real songs are numbered,
+ * so markers and running-order items don't use up a number.
+ */
+export function getSongNumbers(songs: Song[]): Map<string, number> {
+  const numbers = new Map<string, number>()
+  songs.filter(isPlayableSong).forEach((song, index) => {
+    numbers.set(song.id, index + 1)
+  })
+  return numbers
+}
+
 export function hasEncoreMarker(set: SetItem): boolean {
   return findEncoreMarkerIndex(set) !== -1
 }
@@ -0,0 +1,141 @@
+import { computed, ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { STORAGE_KEYS } from '@/constants'
+import { safeGetItem, safeSetItem } from '@/utils/storage'
+import { sanitizeMetadataField, sanitizeSongTitle } from '@/utils/sanitize'
+import {
+  findLastPlayed,
+  sortGigsByDate,
+  type LastPlayed
+} from '@/utils/playHistory'
+import type { GigLogEntry, PlayedSong, StoreState } from './types'
+import { isPlayableSong } from './encore'
+
+function normalizeGigs(gigs: unknown): GigLogEntry[] {
+  if (!Array.isArray(gigs)) return []
+
+  return gigs
+    .filter(gig => gig && typeof gig === 'object' && typeof gig.date === 'string')
+    .map((gig: Partial<GigLogEntry>) => ({
+      id: typeof gig.id === 'string' ? gig.id : crypto.randomUUID(),
+      date: gig.date ?? '',
+      setListName: sanitizeMetadataField(gig.setListName) ?? '',
+      venue: sanitizeMetadataField(gig.venue) ?? '',
+      actName: sanitizeMetadataField(gig.actName) ?? '',
+      songs: Array.isArray(gig.songs)
+        ? gig.songs.map(song => ({
+            title: sanitizeSongTitle(song?.title),
+            libraryId:
+              typeof song?.libraryId === 'string' ? song.libraryId : undefined
+          }))
+        : []
+    }))
+}
+
+function loadGigs(): GigLogEntry[] {
+  const raw = safeGetItem(STORAGE_KEYS.GIG_LOG)
+  if (!raw) return []
+
+  try {
+    return normalizeGigs(JSON.parse(raw))
+  } catch (error) {
+    console.error('Failed to parse gig log', error)
+    return []
+  }
+}
+
+/**
+ * Log of performed set lists, used to show when each song was last played.
+ * Kept in localStorage alongside the song library.
+ */
+export const useGigLogStore = defineStore('gigLog', () => {
+  // State
+  const gigs = ref<GigLogEntry[]>(loadGigs())
+
+  // Computed properties
+  /**
+   * Gigs sorted newest first.
+   */
+  const sortedGigs = computed(() => sortGigsByDate(gigs.value))
+
+  // Watchers
+  watch(
+    gigs,
+    (newGigs) => {
+      safeSetItem(STORAGE_KEYS.GIG_LOG, JSON.stringify(newGigs))
+    },
+    { deep: true }
+  )
+
+  // Actions
+  /**
+   * Find the log entry for a set list by the gig id it was logged with, so
+   * changing its date, name or venue afterwards still finds it.
+   */
+  function findGig(metadata: StoreState['metadata']): GigLogEntry | undefined {
+    if (!metadata.gigId) return undefined
+    return gigs.value.find(gig => gig.id === metadata.gigId)
+  }
+
+  /**
+   * Record every song in the set list as played on its metadata date.
+   * Logging the same gig again replaces its entry, so re-logging after
+   * last-minute changes doesn't count the songs twice. Store the returned
+   * entry's id as the set list's gigId to link the two.
+   *
+   * @returns The log entry, or null when the set list has no date
+   */
+  function logGig(state: StoreState): GigLogEntry | null {
+    const { metadata } = state
+    if (!metadata.date) return null
+
+    const songs: PlayedSong[] = state.sets.flatMap(set =>
+      set.songs
+        .filter(isPlayableSong)
+        .map(song => ({ title: song.title, libraryId: song.libraryId }))
+    )
+
+    const entry: GigLogEntry = {
+      id: findGig(metadata)?.id ?? crypto.randomUUID(),
+      date: metadata.date,
+      setListName: metadata.setListName,
+      venue: metadata.venue,
+      actName: metadata.actName,
+      songs
+    }
+
+    const index = gigs.value.findIndex(gig => gig.id === entry.id)
+    if (index === -1) {
+      gigs.value.push(entry)
+    } else {
+      gigs.value.splice(index, 1, entry)
+    }
+    return entry
+  }
+
+  function removeGig(id: string): void {
+    const index = gigs.value.findIndex(gig => gig.id === id)
+    if (index !== -1) {
+      gigs.value.splice(index, 1)
+    }
+  }
+
+  /**
+   * When a song was last played, and optionally when it was last played at a venue.
+   */
+  function getLastPlayed(song: PlayedSong, venue?: string): LastPlayed | null {
+    return findLastPlayed(sortedGigs.value, song, venue)
+  }
+
+  return {
+    // State
+    gigs,
+    // Computed
+    sortedGigs,
+    // Actions
+    findGig,
+    logGig,
+    removeGig,
+    getLastPlayed
+  }
+})
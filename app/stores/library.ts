@@ -0,0 +1,147 @@
+import { computed, ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { STORAGE_KEYS } from '@/constants'
+import { safeGetItem, safeSetItem } from '@/utils/storage'
+import {
+  sanitizeSongTitle,
+  sanitizeSongKey,
+  sanitizeSongDuration,
+  sanitizeSongNotes
+} from '@/utils/sanitize'
+import { normalizeSearchText, searchLibrary } from '@/utils/librarySearch'
+import type { LibrarySong } from './types'
+
+function normalizeLibrarySongs(songs: unknown): LibrarySong[] {
+  if (!Array.isArray(songs)) return []
+
+  return songs
+    .filter(song => song && typeof song === 'object')
+    .map((song: Partial<LibrarySong>) => ({
+      id: typeof song.id === 'string' ? song.id : crypto.randomUUID(),
+      title: sanitizeSongTitle(song.title),
+      key: sanitizeSongKey(song.key),
+      duration: sanitizeSongDuration(song.duration),
+      notes: sanitizeSongNotes(song.notes)
+    }))
+}
+
+function loadLibrary(): LibrarySong[] {
+  const raw = safeGetItem(STORAGE_KEYS.LIBRARY)
+  if (!raw) return []
+
+  try {
+    return normalizeLibrarySongs(JSON.parse(raw))
+  } catch (error) {
+    console.error('Failed to parse song library', error)
+    return []
+  }
+}
+
+/**
+ * The band's song library. Unlike the set list store it isn't tied to a file:
+ * it lives in localStorage and every set list picks songs from it.
+ */
+export const useLibraryStore = defineStore('library', () => {
+  // State
+  const songs = ref<LibrarySong[]>(loadLibrary())
+
+  // Computed properties
+  /**
+   * Library songs sorted by title, for display.
+   */
+  const sortedSongs = computed(() =>
+    [...songs.value].sort((a, b) => a.title.localeCompare(b.title))
+  )
+
+  // Watchers
+  watch(
+    songs,
+    (newSongs) => {
+      safeSetItem(STORAGE_KEYS.LIBRARY, JSON.stringify(newSongs))
+    },
+    { deep: true }
+  )
+
+  // Actions
+  function getSong(id: string | undefined): LibrarySong | undefined {
+    if (!id) return undefined
+    return songs.value.find(song => song.id === id)
+  }
+
+  /**
+   * Find a library song by title, ignoring case, accents and punctuation.
+   */
+  function findByTitle(title: string): LibrarySong | undefined {
+    const normalized = normalizeSearchText(title)
+    if (!normalized) return undefined
+    return songs.value.find(
+      song => normalizeSearchText(song.title) === normalized
+    )
+  }
+
+  /**
+   * Add a song to the library. If a song with the same title already exists,
+   * that entry is returned instead of creating a duplicate.
+   */
+  function addSong(song: Omit<LibrarySong, 'id'>): LibrarySong {
+    const existing = findByTitle(song.title)
+    if (existing) return existing
+
+    const newSong: LibrarySong = {
+      id: crypto.randomUUID(),
+      title: sanitizeSongTitle(song.title),
+      key: sanitizeSongKey(song.key),
+      duration: sanitizeSongDuration(song.duration),
+      notes: sanitizeSongNotes(song.notes)
+    }
+    songs.value.push(newSong)
+    return newSong
+  }
+
+  function updateSong(
+    id: string,
+    updates: Partial<Omit<LibrarySong, 'id'>>
+  ): void {
+    const song = getSong(id)
+    if (!song) return
+
+    Object.assign(song, {
+      ...(updates.title !== undefined && {
+        title: sanitizeSongTitle(updates.title)
+      }),
+      ...('key' in updates && { key: sanitizeSongKey(updates.key) }),
+      ...('duration' in updates && {
+        duration: sanitizeSongDuration(updates.duration)
+      }),
+      ...('notes' in updates && { notes: sanitizeSongNotes(updates.notes) })
+    })
+  }
+
+  function removeSong(id: string): void {
+    const index = songs.value.findIndex(song => song.id === id)
+    if (index !== -1) {
+      songs.value.splice(index, 1)
+    }
+  }
+
+  /**
+   * Search library titles, best matches first.
+   */
+  function search(query: string, limit?: number): LibrarySong[] {
+    return searchLibrary(songs.value, query, limit)
+  }
+
+  return {
+    // State
+    songs,
+    // Computed
+    sortedSongs,
+    // Actions
+    getSong,
+    findByTitle,
+    addSong,
+    updateSong,
+    removeSong,
+    search
+  }
+})
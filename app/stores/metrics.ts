@@ -1,7 +1,6 @@
 import { formatSongLabel, measureSongLabelWidth } from '@/utils/textMetrics'
 import type { Song, SetMetrics, SetItem } from './types'
-
-const ENCORE_MARKER_TITLE = '<encore>'
+import { isMarkerSong } from './encore'
 
 const EMPTY_METRICS: SetMetrics = {
   longestEntryId: null,
@@ -14,13 +13,9 @@ export function cloneEmptyMetrics(): SetMetrics {
   return { ...EMPTY_METRICS }
 }
 
-function isEncoreMarkerSong(song: Song | undefined): boolean {
-  if (!song) return false
-  return song.isEncoreMarker === true || song.title === ENCORE_MARKER_TITLE
-}
-
 export function buildSetMetrics(songs: Song[]): SetMetrics {
-  const filtered = songs.filter(song => !isEncoreMarkerSong(song))
+  // Encore and section markers print as dividers, not rows
+  const filtered = songs.filter(song => !isMarkerSong(song))
   if (filtered.length === 0) {
     return cloneEmptyMetrics()
   }
@@ -48,14 +43,14 @@ export function buildSetMetrics(songs: Song[]): SetMetrics {
 }
 
 export function applySongAdditionMetrics(set: SetItem, song: Song): void {
-  if (isEncoreMarkerSong(song)) {
+  if (isMarkerSong(song)) {
     set.metrics = buildSetMetrics(set.songs)
     return
   }
   const metrics = set.metrics ?? cloneEmptyMetrics()
   const label = formatSongLabel(song.title, song.key)
   const width = measureSongLabelWidth(song.title, song.key)
-  const totalRows = set.songs.filter(s => !isEncoreMarkerSong(s)).length
+  const totalRows = set.songs.filter(s => !isMarkerSong(s)).length
 
   if (!metrics.longestEntryId || width >= metrics.longestEntryWidth16px) {
     set.metrics = {
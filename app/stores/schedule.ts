@@ -0,0 +1,49 @@
+import type { SetItem } from './types'
+import { isMarkerSong } from './encore'
+import { getSongDuration } from './duration'
+import { parseClockTime } from '@/utils/utils'
+
+export interface SetSchedule {
+  /** Clock time the set starts, in seconds since midnight */
+  startTime: number
+  /** Clock time the last song finishes, in seconds since midnight */
+  endTime: number
+  /** Clock time each song starts, keyed by song id */
+  songStartTimes: Record<string, number>
+}
+
+/**
+ * Work out when each set (and each song in it) starts, given the show start time.
+ * Sets without any songs are skipped, along with the break after them, since they
+ * never reach the stage. Times are not wrapped at midnight, so a late show keeps
+ * counting past 24h and formatClockTime handles the display.
+ *
+ * @returns Schedules keyed by set id, or null when no valid start time is set
+ */
+export function buildSchedule(
+  sets: SetItem[],
+  showStartTime: string | undefined
+): Record<string, SetSchedule> | null {
+  const start = parseClockTime(showStartTime)
+  if (start === undefined) return null
+
+  const schedule: Record<string, SetSchedule> = {}
+  let clock = start
+
+  for (const set of sets) {
+    const songs = set.songs.filter(song => !isMarkerSong(song))
+    if (songs.length === 0) continue
+
+    const setStart = clock
+    const songStartTimes: Record<string, number> = {}
+    for (const song of songs) {
+      songStartTimes[song.id] = clock
+      clock += getSongDuration(song)
+    }
+
+    schedule[set.id] = { startTime: setStart, endTime: clock, songStartTimes }
+    clock += set.intervalAfter ?? 0
+  }
+
+  return schedule
+}
@@ -0,0 +1,34 @@
+import type { Song, SetItem } from './types'
+import { isPlayableSong } from './encore'
+
+/**
+ * `intact` when a song still leads into the song it was marked to segue
+ * into; `broken` once reordering, moving or deleting has split them up.
+ */
+export type SegueStatus = 'none' | 'intact' | 'broken'
+
+/**
+ * The song a song can segue into: the next one in its set, unless that is
+ * the encore marker, a running-order item or there is none.
+ */
+export function getSegueTarget(set: SetItem, index: number): Song | undefined {
+  const next = set.songs[index + 1]
+  return isPlayableSong(next) ? next : undefined
+}
+
+export function getSegueStatus(set: SetItem, index: number): SegueStatus {
+  const song = set.songs[index]
+  if (!song?.segueTo) return 'none'
+  return getSegueTarget(set, index)?.id === song.segueTo ? 'intact' : 'broken'
+}
+
+/**
+ * Ids of the songs in a set that still segue into the song after them.
+ */
+export function getIntactSegueIds(set: SetItem): Set<string> {
+  return new Set(
+    set.songs
+      .filter((_, index) => getSegueStatus(set, index) === 'intact')
+      .map(song => song.id)
+  )
+}
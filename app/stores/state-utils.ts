@@ -3,12 +3,19 @@ import { safeGetItem } from '@/utils/storage'
 import {
   sanitizeSongTitle,
   sanitizeSongKey,
-  sanitizeSetName
+  sanitizeSongDuration,
+  sanitizeSongTempo,
+  sanitizeSongCue,
+  sanitizeSongNotes,
+  sanitizeSetName,
+  sanitizeSetTargetDuration,
+  sanitizeSetInterval,
+  sanitizeClockTime
 } from '@/utils/sanitize'
 import { migrateToCurrentSchema, CURRENT_SCHEMA_VERSION } from '@/utils/schemaMigration'
 import type { Song, SetItem, SetMetrics, StoreState } from './types'
 import { buildSetMetrics, cloneEmptyMetrics } from './metrics'
-import { isEncoreMarkerSong } from './encore'
+import { isEncoreMarkerSong, isRunningOrderItemType } from './encore'
 
 export function createEmptySet(): SetItem {
   return {
@@ -25,7 +32,10 @@ export function createDefaultState(): StoreState {
       setListName: '',
       venue: '',
       date: '',
-      actName: ''
+      actName: '',
+      startTime: '',
+      curfew: '',
+      gigId: ''
     },
     sets: [createEmptySet()]
   }
@@ -49,7 +59,16 @@ export function normalizeSongs(songs?: Song[]): Song[] {
     id: typeof song?.id === 'string' ? song.id : crypto.randomUUID(),
     title: sanitizeSongTitle(song?.title, `Song ${index + 1}`),
     key: sanitizeSongKey(song?.key),
-    isEncoreMarker: isEncoreMarkerSong(song)
+    duration: sanitizeSongDuration(song?.duration),
+    tempo: sanitizeSongTempo(song?.tempo),
+    cue: sanitizeSongCue(song?.cue),
+    notes: sanitizeSongNotes(song?.notes),
+    segueTo: typeof song?.segueTo === 'string' ? song.segueTo : undefined,
+    isOptional: song?.isOptional === true || undefined,
+    isEncoreMarker: isEncoreMarkerSong(song),
+    isSectionMarker: song?.isSectionMarker === true || undefined,
+    itemType: isRunningOrderItemType(song?.itemType) ? song.itemType : undefined,
+    libraryId: typeof song?.libraryId === 'string' ? song.libraryId : undefined
   }))
 }
 
@@ -68,6 +87,8 @@ export function normalizeSets(sets?: SetItem[]): SetItem[] {
       id: typeof set?.id === 'string' ? set.id : crypto.randomUUID(),
       name: sanitizeSetName(set?.name),
       songs,
+      targetDuration: sanitizeSetTargetDuration(set?.targetDuration),
+      intervalAfter: sanitizeSetInterval(set?.intervalAfter),
       metrics: buildSetMetrics(songs)
     }
   })
@@ -86,7 +107,14 @@ export function buildInitialState(): StoreState {
         savedState?.metadata?.setListName ?? defaults.metadata.setListName,
       venue: savedState?.metadata?.venue ?? defaults.metadata.venue,
       date: savedState?.metadata?.date ?? defaults.metadata.date,
-      actName: savedState?.metadata?.actName ?? defaults.metadata.actName
+      actName: savedState?.metadata?.actName ?? defaults.metadata.actName,
+      startTime:
+        sanitizeClockTime(savedState?.metadata?.startTime) ??
+        defaults.metadata.startTime,
+      curfew:
+        sanitizeClockTime(savedState?.metadata?.curfew) ??
+        defaults.metadata.curfew,
+      gigId: savedState?.metadata?.gigId ?? defaults.metadata.gigId
     },
     sets: normalizeSets(savedState?.sets)
   }
@@ -3,13 +3,35 @@ import { defineStore } from 'pinia'
 import { STORAGE_KEYS } from '@/constants'
 import { LIMITS } from '@/constants/limits'
 import { safeSetItem } from '@/utils/storage'
-import { sanitizeSongTitle, sanitizeSongKey, sanitizeSetName, sanitizeMetadata } from '@/utils/sanitize'
+import {
+  sanitizeSongTitle,
+  sanitizeSongKey,
+  sanitizeSongDuration,
+  sanitizeSongTempo,
+  sanitizeSongCue,
+  sanitizeSongNotes,
+  sanitizeSetName,
+  sanitizeSetTargetDuration,
+  sanitizeSetInterval,
+  sanitizeMetadata
+} from '@/utils/sanitize'
 import { isDataEqual, type ComparableData } from '@/utils/stateComparison'
+import {
+  normalizeKey,
+  parseKey,
+  transposeKeyText,
+  type KeySpelling
+} from '@/utils/musicalKey'
 import { CURRENT_SCHEMA_VERSION } from '@/utils/schemaMigration'
 
 // Import types
-export type { Song, SetItem, SetListMetadata, StoreState, SetMetrics } from './types'
-import type { Song, SetItem, SetListMetadata, StoreState } from './types'
+import type {
+  Song,
+  SetItem,
+  SetListMetadata,
+  StoreState,
+  RunningOrderItemType
+} from './types'
 
 // Import utilities
 import { buildInitialState, createDefaultState, createEmptySet, normalizeSets } from './state-utils'
@@ -18,13 +40,23 @@ import {
   isEncoreMarkerSong,
   hasEncoreMarker,
   createEncoreMarker,
-  findEncoreMarkerIndex,
-  countPlayableSongs
+  countPlayableSongs,
+  createRunningOrderItem,
+  createSectionMarker,
+  isSectionMarkerSong,
+  isMarkerSong,
+  isRunningOrderItem,
+  isPlayableSong
 } from './encore'
-
-export { hasEncoreMarker, isEncoreMarkerSong }
-
-
+import {
+  getSetDuration as getSetItemDuration,
+  getSetCoreDuration as getSetItemCoreDuration,
+  getSetsDuration,
+  getSetsCoreDuration
+} from './duration'
+import { buildSchedule } from './schedule'
+import { getSegueTarget } from './segue'
+import { checkCurfew } from './curfew'
 
 /**
  * Extract comparable data from the store state.
@@ -36,11 +68,22 @@ function extractComparableData(state: StoreState): ComparableData {
     sets: state.sets.map(set => ({
       id: set.id,
       name: set.name,
+      targetDuration: set.targetDuration,
+      intervalAfter: set.intervalAfter,
       songs: set.songs.map(song => ({
         id: song.id,
         title: song.title,
         key: song.key,
-        isEncoreMarker: song.isEncoreMarker
+        duration: song.duration,
+        tempo: song.tempo,
+        cue: song.cue,
+        notes: song.notes,
+        segueTo: song.segueTo,
+        isOptional: song.isOptional,
+        isEncoreMarker: song.isEncoreMarker,
+        isSectionMarker: song.isSectionMarker,
+        itemType: song.itemType,
+        libraryId: song.libraryId
       }))
     }))
   }
@@ -75,6 +118,27 @@ export const useSetlistStore = defineStore('setlist', () => {
     state.value.sets.length ? state.value.sets[state.value.sets.length - 1]?.id ?? null : null
   )
 
+  /**
+   * Computed running-order schedule: clock start time of each set and song,
+   * keyed by set id. Null until a show start time is entered.
+   */
+  const schedule = computed(() =>
+    buildSchedule(state.value.sets, state.value.metadata.startTime)
+  )
+
+  /**
+   * Computed curfew check: when the show ends against the curfew, plus songs
+   * that could be dropped if it overruns. Null without a start time and curfew.
+   */
+  const curfewCheck = computed(() =>
+    checkCurfew(
+      state.value.sets,
+      schedule.value,
+      state.value.metadata.startTime,
+      state.value.metadata.curfew
+    )
+  )
+
   // Watchers
   watch(
     state,
@@ -87,14 +151,12 @@ export const useSetlistStore = defineStore('setlist', () => {
   // Actions
   function addSet(): void {
     state.value.sets.push(createEmptySet())
-    sanitizeEncoreMarkers()
   }
 
   function removeSet(setId: string): void {
     const index = state.value.sets.findIndex(set => set.id === setId)
     if (index !== -1) {
       state.value.sets.splice(index, 1)
-      sanitizeEncoreMarkers()
     }
   }
 
@@ -105,6 +167,26 @@ export const useSetlistStore = defineStore('setlist', () => {
     }
   }
 
+  /**
+   * Set (or clear, with undefined) the planned length of a set, in seconds.
+   */
+  function setTargetDuration(setId: string, seconds: number | undefined): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (set) {
+      set.targetDuration = sanitizeSetTargetDuration(seconds)
+    }
+  }
+
+  /**
+   * Set (or clear, with undefined) the break after a set, in seconds.
+   */
+  function setIntervalAfter(setId: string, seconds: number | undefined): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (set) {
+      set.intervalAfter = sanitizeSetInterval(seconds)
+    }
+  }
+
   function getSetDisplayName(setId: string): string {
     const index = state.value.sets.findIndex(s => s.id === setId)
     if (index === -1) return ''
@@ -112,32 +194,71 @@ export const useSetlistStore = defineStore('setlist', () => {
     return set?.name || `Set ${index + 1}`
   }
 
+  /**
+   * Add a song to a set. By default it goes at the end, before a trailing
+   * encore marker; pass `atIndex` to drop it at a specific position instead.
+   */
   function addSongToSet(
     setId: string,
     song: {
       title: string
       key?: string
-    }
+      duration?: number
+      libraryId?: string
+    },
+    atIndex?: number
   ): void {
     const set = state.value.sets.find(s => s.id === setId)
     if (set) {
-      const newSong: Song = {
-        id: crypto.randomUUID(),
-        title: sanitizeSongTitle(song.title),
-        key: sanitizeSongKey(song.key)
-      }
-      const markerIndex = findEncoreMarkerIndex(set)
-      const markerIsLast =
-        markerIndex !== -1 && markerIndex === set.songs.length - 1
+      insertIntoSet(
+        set,
+        {
+          id: crypto.randomUUID(),
+          title: sanitizeSongTitle(song.title),
+          key: normalizeKey(sanitizeSongKey(song.key)),
+          duration: sanitizeSongDuration(song.duration),
+          libraryId: song.libraryId
+        },
+        atIndex
+      )
+    }
+  }
 
-      if (markerIsLast) {
-        set.songs.splice(markerIndex, 0, newSong)
-        refreshSetMetrics(set)
-      } else {
-        set.songs.push(newSong)
-        applySongAdditionMetrics(set, newSong)
-      }
-      sanitizeEncoreMarkers()
+  /**
+   * Add a running-order item (e.g. a changeover) to a set. It goes where a
+   * new song would, and is labelled with its type until renamed.
+   */
+  function addItemToSet(setId: string, type: RunningOrderItemType): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (set) {
+      insertIntoSet(set, createRunningOrderItem(type))
+    }
+  }
+
+  /**
+   * Add a section divider (e.g. "Acoustic") to a set, where a new song
+   * would go, ready to rename and drag into place.
+   */
+  function addSectionMarker(setId: string): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (set) {
+      insertIntoSet(set, createSectionMarker())
+    }
+  }
+
+  function insertIntoSet(set: SetItem, newSong: Song, atIndex?: number): void {
+    const lastIndex = set.songs.length - 1
+    const markerIsLast = isEncoreMarkerSong(set.songs[lastIndex])
+
+    if (atIndex !== undefined && atIndex >= 0) {
+      set.songs.splice(Math.min(atIndex, set.songs.length), 0, newSong)
+      refreshSetMetrics(set)
+    } else if (markerIsLast) {
+      set.songs.splice(lastIndex, 0, newSong)
+      refreshSetMetrics(set)
+    } else {
+      set.songs.push(newSong)
+      applySongAdditionMetrics(set, newSong)
     }
   }
 
@@ -148,7 +269,6 @@ export const useSetlistStore = defineStore('setlist', () => {
       if (index !== -1) {
         set.songs.splice(index, 1)
         refreshSetMetrics(set)
-        sanitizeEncoreMarkers()
       }
     }
   }
@@ -182,16 +302,10 @@ export const useSetlistStore = defineStore('setlist', () => {
       const [movedSong] = fromSet.songs.splice(fromIndex, 1)
       if (!movedSong) return
 
-      if (movedSong.isEncoreMarker && fromSetId !== toSetId) {
-        // Encore marker stays within its original set
-        fromSet.songs.splice(fromIndex, 0, movedSong)
-        return
-      }
       const insertIndex = Math.min(toIndex, toSet.songs.length)
       toSet.songs.splice(insertIndex, 0, movedSong)
       refreshSetMetrics(fromSet)
       refreshSetMetrics(toSet)
-      sanitizeEncoreMarkers()
     }
   }
 
@@ -210,7 +324,27 @@ export const useSetlistStore = defineStore('setlist', () => {
           ...(updates.title !== undefined && {
             title: sanitizeSongTitle(updates.title)
           }),
-          ...(updates.key !== undefined && { key: sanitizeSongKey(updates.key) })
+          ...(updates.key !== undefined && {
+            key: normalizeKey(sanitizeSongKey(updates.key))
+          }),
+          // An explicit undefined duration clears it, so check for the property itself
+          ...('duration' in updates && {
+            duration: sanitizeSongDuration(updates.duration)
+          }),
+          ...('tempo' in updates && {
+            tempo: sanitizeSongTempo(updates.tempo)
+          }),
+          ...('cue' in updates && { cue: sanitizeSongCue(updates.cue) }),
+          ...('notes' in updates && {
+            notes: sanitizeSongNotes(updates.notes)
+          }),
+          ...('segueTo' in updates && {
+            segueTo: updates.segueTo || undefined
+          }),
+          // Store only `true` so clearing the flag matches a song that never had it
+          ...('isOptional' in updates && {
+            isOptional: updates.isOptional === true || undefined
+          })
         }
         Object.assign(song, sanitizedUpdates)
         refreshSetMetrics(set)
@@ -218,12 +352,60 @@ export const useSetlistStore = defineStore('setlist', () => {
     }
   }
 
+  /**
+   * Transpose every song key in the given sets by a number of semitones.
+   * Keys go through updateSong, so the whole change is one undo step; keys
+   * that can't be read are left alone.
+   * @returns The number of songs whose key changed
+   */
+  function transposeSets(
+    setIds: string[],
+    semitones: number,
+    spelling: KeySpelling = 'auto'
+  ): number {
+    let changed = 0
+    state.value.sets
+      .filter(set => setIds.includes(set.id))
+      .forEach(set => {
+        set.songs.forEach(song => {
+          if (!parseKey(song.key)) return
+          const key = transposeKeyText(song.key, semitones, spelling)
+          if (key === song.key) return
+          updateSong(set.id, song.id, { key })
+          changed++
+        })
+      })
+    return changed
+  }
+
+  /**
+   * Mark a song as running straight into the song after it, or clear the
+   * segue. A broken segue is cleared too; toggling again links it to the
+   * song that follows now.
+   */
+  function toggleSegue(setId: string, songId: string): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (!set) return
+    const index = set.songs.findIndex(s => s.id === songId)
+    const song = set.songs[index]
+    if (!song) return
+
+    if (song.segueTo) {
+      song.segueTo = undefined
+    } else {
+      song.segueTo = getSegueTarget(set, index)?.id
+    }
+  }
+
   function updateMetadata(updates: Partial<SetListMetadata>): void {
     const sanitized = sanitizeMetadata({
       setListName: updates.setListName ?? state.value.metadata.setListName,
       venue: updates.venue ?? state.value.metadata.venue,
       date: updates.date ?? state.value.metadata.date,
-      actName: updates.actName ?? state.value.metadata.actName
+      actName: updates.actName ?? state.value.metadata.actName,
+      startTime: updates.startTime ?? state.value.metadata.startTime,
+      curfew: updates.curfew ?? state.value.metadata.curfew,
+      gigId: updates.gigId ?? state.value.metadata.gigId
     })
     Object.assign(state.value.metadata, sanitized)
   }
@@ -244,7 +426,6 @@ export const useSetlistStore = defineStore('setlist', () => {
     state.value.schemaVersion = newData.schemaVersion
     state.value.sets = newData.sets
     state.value.metadata = newData.metadata
-    sanitizeEncoreMarkers()
     originalState.value = extractComparableData(state.value)
   }
 
@@ -267,42 +448,68 @@ export const useSetlistStore = defineStore('setlist', () => {
       setListName: candidate.metadata?.setListName,
       venue: candidate.metadata?.venue,
       date: candidate.metadata?.date,
-      actName: candidate.metadata?.actName
+      actName: candidate.metadata?.actName,
+      startTime: candidate.metadata?.startTime,
+      curfew: candidate.metadata?.curfew,
+      gigId: candidate.metadata?.gigId
     })
-    sanitizeEncoreMarkers()
     originalState.value = extractComparableData(state.value)
     return true
   }
 
-  function sanitizeEncoreMarkers(): void {
-    if (!state.value.sets.length) return
-    const lastIndex = state.value.sets.length - 1
-
-    state.value.sets.forEach((set, index) => {
-      const markerIndex = findEncoreMarkerIndex(set)
-      const shouldHaveMarker =
-        index === lastIndex &&
-        countPlayableSongs(set) >= LIMITS.MIN_SONGS_FOR_ENCORE
+  /**
+   * Replace every set with imported ones, keeping the set list details.
+   * Unlike loadStore this doesn't mark the result as saved: it stays dirty
+   * until the user saves it. The imported songs weren't what was played at
+   * the logged gig, so the gig log link is dropped.
+   */
+  function replaceSets(sets: Pick<SetItem, 'name' | 'songs'>[]): void {
+    state.value.sets = normalizeSets(sets as SetItem[])
+    state.value.metadata.gigId = ''
+  }
 
-      if (shouldHaveMarker && markerIndex === -1) {
-        set.songs.push(createEncoreMarker())
-        refreshSetMetrics(set)
-      } else if (!shouldHaveMarker && markerIndex !== -1) {
-        set.songs.splice(markerIndex, 1)
-        refreshSetMetrics(set)
-      }
-    })
+  /**
+   * Add an encore break to the end of a set, ready to drag to where the
+   * encore begins. A set can have several, e.g. for a double encore.
+   */
+  function addEncoreMarker(setId: string): void {
+    const set = state.value.sets.find(s => s.id === setId)
+    if (!set || countPlayableSongs(set) < LIMITS.MIN_SONGS_FOR_ENCORE) return
+    set.songs.push(createEncoreMarker())
+    refreshSetMetrics(set)
   }
 
   // Utility functions
+  /**
+   * Total running time of every song across all sets, in seconds.
+   * This is the "max" total: optional songs are included.
+   * Songs without a duration count as zero.
+   */
   function getTotalDuration(): number {
-    if (!state.value.sets.length) return 0
+    return getSetsDuration(state.value.sets)
+  }
 
-    // If there are no songs in the available sets, return zero
-    if (!state.value.sets.some(set => set.songs.length)) return 0
+  /**
+   * Total running time across all sets without optional songs, in seconds.
+   */
+  function getCoreDuration(): number {
+    return getSetsCoreDuration(state.value.sets)
+  }
 
-    // Return 0 until durations are implemented
-    return 0
+  /**
+   * Running time of a single set, in seconds (optional songs included).
+   */
+  function getSetDuration(setId: string): number {
+    const set = state.value.sets.find(s => s.id === setId)
+    return set ? getSetItemDuration(set) : 0
+  }
+
+  /**
+   * Running time of a single set without optional songs, in seconds.
+   */
+  function getSetCoreDuration(setId: string): number {
+    const set = state.value.sets.find(s => s.id === setId)
+    return set ? getSetItemCoreDuration(set) : 0
   }
 
   function isLastSet(setId: string): boolean {
@@ -316,22 +523,34 @@ export const useSetlistStore = defineStore('setlist', () => {
     // Computed
     isDirty,
     lastSetId,
+    schedule,
+    curfewCheck,
     // Actions
     addSet,
     removeSet,
     renameSet,
+    setTargetDuration,
+    setIntervalAfter,
     getSetDisplayName,
     addSongToSet,
+    addItemToSet,
+    addSectionMarker,
     removeSongFromSet,
     reorderSong,
     moveSong,
     updateSong,
+    transposeSets,
+    toggleSegue,
     updateMetadata,
     markClean,
     resetStore,
     loadStore,
-    sanitizeEncoreMarkers,
+    replaceSets,
+    addEncoreMarker,
     getTotalDuration,
+    getCoreDuration,
+    getSetDuration,
+    getSetCoreDuration,
     isLastSet
   }
 })
@@ -1,8 +1,62 @@
+/** Running-order entries that aren't songs */
+export type RunningOrderItemType =
+  | 'spoken-intro'
+  | 'backing-track'
+  | 'changeover'
+  | 'band-intros'
+  | 'raffle'
+
 export interface Song {
   id: string
   title: string
   key?: string
+  /** Song length in seconds */
+  duration?: number
+  /** Tempo in beats per minute */
+  tempo?: number
+  /** Lighting cue, printed on the lighting copy */
+  cue?: string
+  /** Performance notes for this show, e.g. "capo 2" or "long outro" */
+  notes?: string
+  /** Id of the next song, when this one runs straight into it */
+  segueTo?: string
+  /** Played only if time (or the crowd) allows */
+  isOptional?: boolean
   isEncoreMarker?: boolean
+  /** Set on a section divider ("Acoustic", "Medley"); the title is its name */
+  isSectionMarker?: boolean
+  /** Set when this is a running-order item rather than a song; the title is its label */
+  itemType?: RunningOrderItemType
+  /** Id of the song library entry this song was picked from */
+  libraryId?: string
+}
+
+/** A song in the band's repertoire, reused across set lists */
+export interface LibrarySong {
+  id: string
+  title: string
+  /** Key the song is usually played in */
+  key?: string
+  /** Song length in seconds */
+  duration?: number
+  notes?: string
+}
+
+/** A song as it was played at a gig */
+export interface PlayedSong {
+  title: string
+  libraryId?: string
+}
+
+/** One performed set list in the gig log */
+export interface GigLogEntry {
+  id: string
+  /** Performance date as "YYYY-MM-DD" */
+  date: string
+  setListName: string
+  venue: string
+  actName: string
+  songs: PlayedSong[]
 }
 
 export interface SetMetrics {
@@ -16,6 +70,10 @@ export interface SetItem {
   id: string
   name?: string
   songs: Song[]
+  /** Planned set length in seconds */
+  targetDuration?: number
+  /** Break after this set before the next one starts, in seconds */
+  intervalAfter?: number
   metrics: SetMetrics
 }
 
@@ -24,6 +82,12 @@ export interface SetListMetadata {
   venue: string
   date: string
   actName: string
+  /** Show start time as 24-hour "HH:MM", or empty when not planned */
+  startTime: string
+  /** Latest time the show must finish, as 24-hour "HH:MM", or empty */
+  curfew: string
+  /** Id of this set list's gig log entry, or empty until it's marked as performed */
+  gigId: string
 }
 
 export interface StoreState {
@@ -31,3 +95,11 @@ export interface StoreState {
   metadata: SetListMetadata
   sets: SetItem[]
 }
+
+/** A set list kept in the local document library (IndexedDB) */
+export interface ArchivedSetList {
+  id: string
+  /** Last time the entry was saved, in ms since the epoch */
+  updatedAt: number
+  state: StoreState
+}
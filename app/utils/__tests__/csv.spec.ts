@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter, parseCsv, toCsv } from "../csv";
+
+describe("csv", () => {
+  describe("toCsv", () => {
+    it("should join fields and rows", () => {
+      expect(
+        toCsv([
+          ["a", "b"],
+          ["c", "d"],
+        ]),
+      ).toBe("a,b\r\nc,d");
+    });
+
+    it("should quote fields with commas, quotes and line breaks", () => {
+      expect(toCsv([["Hello, Goodbye", 'Say "Hi"', "Two\nLines"]])).toBe(
+        '"Hello, Goodbye","Say ""Hi""","Two\nLines"',
+      );
+    });
+  });
+
+  describe("detectDelimiter", () => {
+    it("should pick the most common delimiter in the first line", () => {
+      expect(detectDelimiter("a,b,c\n1;2")).toBe(",");
+      expect(detectDelimiter("a;b;c")).toBe(";");
+      expect(detectDelimiter("a\tb")).toBe("\t");
+    });
+
+    it("should default to commas", () => {
+      expect(detectDelimiter("title")).toBe(",");
+    });
+  });
+
+  describe("parseCsv", () => {
+    it("should parse simple rows", () => {
+      expect(parseCsv("a,b\nc,d\n")).toEqual([
+        ["a", "b"],
+        ["c", "d"],
+      ]);
+    });
+
+    it("should handle quoted fields", () => {
+      expect(parseCsv('"Hello, Goodbye","Say ""Hi""","Two\r\nLines"')).toEqual(
+        [["Hello, Goodbye", 'Say "Hi"', "Two\r\nLines"]],
+      );
+    });
+
+    it("should handle CRLF, semicolons and a byte order mark", () => {
+      expect(parseCsv("\uFEFFa;b\r\nc;d")).toEqual([
+        ["a", "b"],
+        ["c", "d"],
+      ]);
+    });
+
+    it("should drop blank lines but keep empty fields", () => {
+      expect(parseCsv("a,,c\n\n,,\nd,e,f")).toEqual([
+        ["a", "", "c"],
+        ["d", "e", "f"],
+      ]);
+    });
+
+    it("should round trip with toCsv", () => {
+      const rows = [
+        ["Set", "Title"],
+        ["1", 'Don\'t Stop "Me", Now'],
+      ];
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { elementToSvg, fontFaceCss } from "../elementImage";
+
+describe("elementImage", () => {
+  describe("fontFaceCss", () => {
+    it("should inline the font as a base64 data URL", () => {
+      const css = fontFaceCss("NotoSans", new Uint8Array([104, 105]));
+      expect(css).toContain('font-family: "NotoSans"');
+      expect(css).toContain("font-weight: 100 900");
+      expect(css).toContain("url(data:font/ttf;base64,aGk=)");
+    });
+
+    it("should accept an explicit weight", () => {
+      expect(fontFaceCss("NotoMusic", new ArrayBuffer(0), "400")).toContain(
+        "font-weight: 400",
+      );
+    });
+  });
+
+  describe("elementToSvg", () => {
+    let element: HTMLElement;
+
+    afterEach(() => {
+      element?.remove();
+    });
+
+    function mount(html: string): HTMLElement {
+      element = document.createElement("div");
+      element.className = "preview-set";
+      element.innerHTML = html;
+      document.body.appendChild(element);
+      return element;
+    }
+
+    it("should wrap a copy of the element in a foreignObject", () => {
+      const { svg } = elementToSvg(
+        mount('<span class="song-title">Jolene</span>'),
+      );
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+        true,
+      );
+      expect(svg).toContain("<foreignObject");
+      expect(svg).toContain('xmlns="http://www.w3.org/1999/xhtml"');
+      expect(svg).toContain("Jolene");
+    });
+
+    it("should replace classes with inline styles", () => {
+      const { svg } = elementToSvg(
+        mount('<span class="song-title">Jolene</span>'),
+      );
+      expect(svg).not.toContain("class=");
+      expect(svg).toMatch(/<span style="[^"]*"/);
+    });
+
+    it("should embed fonts and apply root overrides", () => {
+      const { svg } = elementToSvg(mount("Jolene"), {
+        fontCss: "@font-face { font-family: Test; }",
+        rootStyle: { "box-shadow": "none" },
+      });
+      expect(svg).toContain("<style>@font-face { font-family: Test; }</style>");
+      expect(svg).toContain("box-shadow: none");
+    });
+
+    it("should leave the original element untouched", () => {
+      const source = mount('<span class="song-title">Jolene</span>');
+      elementToSvg(source);
+      expect(source.className).toBe("preview-set");
+      expect(source.querySelector("span")?.getAttribute("style")).toBeNull();
+      expect(document.querySelectorAll("iframe")).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { normalizeSearchText, searchLibrary } from "../librarySearch";
+import type { LibrarySong } from "@/stores/types";
+
+function createLibrarySong(title: string): LibrarySong {
+  return { id: title.toLowerCase().replace(/\s+/g, "-"), title };
+}
+
+const library: LibrarySong[] = [
+  createLibrarySong("Don't Stop Me Now"),
+  createLibrarySong("Stop"),
+  createLibrarySong("Bus Stop"),
+  createLibrarySong("Nonstop"),
+  createLibrarySong("Café del Mar"),
+];
+
+describe("librarySearch", () => {
+  describe("normalizeSearchText", () => {
+    it("should ignore case, accents and punctuation", () => {
+      expect(normalizeSearchText("Don't Stop")).toBe("dont stop");
+      expect(normalizeSearchText("Café")).toBe("cafe");
+    });
+
+    it("should collapse whitespace", () => {
+      expect(normalizeSearchText("  Bus   Stop ")).toBe("bus stop");
+    });
+  });
+
+  describe("searchLibrary", () => {
+    it("should return nothing for an empty query", () => {
+      expect(searchLibrary(library, "")).toEqual([]);
+      expect(searchLibrary(library, "  ")).toEqual([]);
+    });
+
+    it("should rank exact, prefix, word-start and substring matches in order", () => {
+      const titles = searchLibrary(library, "stop").map((song) => song.title);
+      expect(titles).toEqual(["Stop", "Bus Stop", "Don't Stop Me Now", "Nonstop"]);
+    });
+
+    it("should match without punctuation or accents", () => {
+      expect(searchLibrary(library, "dont")[0]?.title).toBe("Don't Stop Me Now");
+      expect(searchLibrary(library, "cafe")[0]?.title).toBe("Café del Mar");
+    });
+
+    it("should respect the limit", () => {
+      expect(searchLibrary(library, "stop", 2)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatKey,
+  formatKeySymbols,
+  getPitchClass,
+  getSemitonesBetween,
+  isValidKey,
+  normalizeKey,
+  parseKey,
+  transposeKey,
+  transposeKeyText,
+  type MusicalKey,
+} from "../musicalKey";
+
+function key(text: string): MusicalKey {
+  const parsed = parseKey(text);
+  if (!parsed) throw new Error(`Unreadable key in test: ${text}`);
+  return parsed;
+}
+
+describe("musicalKey", () => {
+  describe("parseKey", () => {
+    it("should read plain major and minor keys", () => {
+      expect(parseKey("E")).toEqual({
+        tonic: "E",
+        accidental: "natural",
+        mode: "major",
+      });
+      expect(parseKey("Am")).toEqual({
+        tonic: "A",
+        accidental: "natural",
+        mode: "minor",
+      });
+    });
+
+    it("should read every spelling of B flat minor", () => {
+      const bFlatMinor = { tonic: "B", accidental: "flat", mode: "minor" };
+      for (const text of [
+        "Bbm",
+        "B♭m",
+        "Bb min",
+        "B flat minor",
+        "B-flat minor",
+        " Bb Minor ",
+      ]) {
+        expect(parseKey(text), text).toEqual(bFlatMinor);
+      }
+    });
+
+    it("should read sharps", () => {
+      expect(parseKey("A#m")).toEqual({
+        tonic: "A",
+        accidental: "sharp",
+        mode: "minor",
+      });
+      expect(parseKey("F♯")?.accidental).toBe("sharp");
+      expect(parseKey("C sharp major")?.accidental).toBe("sharp");
+    });
+
+    it("should tell a major M from a minor m", () => {
+      expect(parseKey("CM")?.mode).toBe("major");
+      expect(parseKey("Cm")?.mode).toBe("minor");
+      expect(parseKey("Cmaj")?.mode).toBe("major");
+    });
+
+    it("should treat a lowercase letter on its own as minor", () => {
+      expect(parseKey("e")?.mode).toBe("minor");
+      expect(parseKey("e major")?.mode).toBe("major");
+    });
+
+    it("should read a lowercase letter with an accidental as major", () => {
+      for (const text of ["eb", "bb", "ab", "f#"]) {
+        expect(parseKey(text)?.mode, text).toBe("major");
+      }
+    });
+
+    it("should read modes", () => {
+      expect(parseKey("D dorian")?.mode).toBe("dorian");
+      expect(parseKey("G mixo")?.mode).toBe("mixolydian");
+      expect(parseKey("A aeolian")?.mode).toBe("minor");
+    });
+
+    it("should return null for anything else", () => {
+      expect(parseKey(undefined)).toBeNull();
+      expect(parseKey("")).toBeNull();
+      expect(parseKey("H")).toBeNull();
+      expect(parseKey("E blues")).toBeNull();
+      expect(parseKey("capo 2")).toBeNull();
+      expect(parseKey("Bbb")).toBeNull();
+    });
+  });
+
+  describe("formatKey", () => {
+    it("should write keys the usual way", () => {
+      expect(
+        formatKey({ tonic: "B", accidental: "flat", mode: "minor" }),
+      ).toBe("Bbm");
+      expect(
+        formatKey({ tonic: "F", accidental: "sharp", mode: "major" }),
+      ).toBe("F#");
+      expect(
+        formatKey({ tonic: "D", accidental: "natural", mode: "dorian" }),
+      ).toBe("D dorian");
+    });
+  });
+
+  describe("formatKeySymbols", () => {
+    it("should print flats and sharps as symbols", () => {
+      expect(formatKeySymbols("Bbm")).toBe("B♭m");
+      expect(formatKeySymbols("F#")).toBe("F♯");
+      expect(formatKeySymbols("E")).toBe("E");
+      expect(formatKeySymbols("Eb dorian")).toBe("E♭ dorian");
+    });
+
+    it("should print minor keys in lowercase when asked", () => {
+      expect(formatKeySymbols("Bbm", true)).toBe("b♭");
+      expect(formatKeySymbols("Am", true)).toBe("a");
+      expect(formatKeySymbols("F#", true)).toBe("F♯");
+    });
+
+    it("should print keys it can't read as typed", () => {
+      expect(formatKeySymbols(" capo 2 ")).toBe("capo 2");
+    });
+  });
+
+  describe("normalizeKey", () => {
+    it("should tidy spellings", () => {
+      expect(normalizeKey("B flat minor")).toBe("Bbm");
+      expect(normalizeKey("a#m")).toBe("A#m");
+      expect(normalizeKey("E♭ major")).toBe("Eb");
+    });
+
+    it("should keep lowercase flat keys major", () => {
+      expect(normalizeKey("eb")).toBe("Eb");
+      expect(normalizeKey("bb")).toBe("Bb");
+      expect(normalizeKey("ab")).toBe("Ab");
+    });
+
+    it("should leave keys it can't read as typed", () => {
+      expect(normalizeKey("capo 2")).toBe("capo 2");
+      expect(normalizeKey(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("isValidKey", () => {
+    it("should accept readable keys and no key at all", () => {
+      expect(isValidKey("F#m")).toBe(true);
+      expect(isValidKey(undefined)).toBe(true);
+      expect(isValidKey("  ")).toBe(true);
+    });
+
+    it("should reject keys it can't read", () => {
+      expect(isValidKey("capo 2")).toBe(false);
+    });
+  });
+
+  describe("getPitchClass", () => {
+    it("should treat enharmonic keys alike", () => {
+      expect(getPitchClass(key("C"))).toBe(0);
+      expect(getPitchClass(key("A#"))).toBe(getPitchClass(key("Bb")));
+      expect(getPitchClass(key("Cb"))).toBe(11);
+    });
+  });
+
+  describe("transposeKey", () => {
+    it("should move keys by semitones and keep the mode", () => {
+      expect(formatKey(transposeKey(key("E"), -2))).toBe("D");
+      expect(formatKey(transposeKey(key("Am"), 3))).toBe("Cm");
+      expect(formatKey(transposeKey(key("B"), 1))).toBe("C");
+      expect(formatKey(transposeKey(key("D dorian"), 2))).toBe("E dorian");
+    });
+
+    it("should spell each key the usual way", () => {
+      expect(formatKey(transposeKey(key("G"), 3))).toBe("Bb");
+      expect(formatKey(transposeKey(key("E"), 2))).toBe("F#");
+      expect(formatKey(transposeKey(key("Am"), -2))).toBe("Gm");
+      expect(formatKey(transposeKey(key("Em"), -3))).toBe("C#m");
+    });
+
+    it("should follow a sharp or flat preference", () => {
+      expect(formatKey(transposeKey(key("G"), 3, "sharps"))).toBe("A#");
+      expect(formatKey(transposeKey(key("E"), 2, "flats"))).toBe("Gb");
+      expect(formatKey(transposeKey(key("E"), -2, "flats"))).toBe("D");
+    });
+  });
+
+  describe("transposeKeyText", () => {
+    it("should transpose keys as typed", () => {
+      expect(transposeKeyText("B flat minor", 2)).toBe("Cm");
+    });
+
+    it("should leave keys it can't read alone", () => {
+      expect(transposeKeyText("capo 2", 2)).toBe("capo 2");
+      expect(transposeKeyText(undefined, 2)).toBeUndefined();
+    });
+  });
+
+  describe("getSemitonesBetween", () => {
+    it("should take the shortest way", () => {
+      expect(getSemitonesBetween(key("E"), key("D"))).toBe(-2);
+      expect(getSemitonesBetween(key("D"), key("E"))).toBe(2);
+      expect(getSemitonesBetween(key("C"), key("F#"))).toBe(6);
+      expect(getSemitonesBetween(key("C"), key("G"))).toBe(-5);
+    });
+
+    it("should compare tonics whatever the mode", () => {
+      expect(getSemitonesBetween(key("Am"), key("G"))).toBe(-2);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PAGE_SETUP,
+  describePageSetup,
+  getPageDimensions,
+  sanitizePageSetup,
+  type PageSetup,
+} from "../pageSetup";
+import { BOX_HEIGHT_CM, BOX_WIDTH_CM, CM_TO_PX } from "@/constants";
+
+function createSetup(extra: Partial<PageSetup> = {}): PageSetup {
+  return { ...DEFAULT_PAGE_SETUP, ...extra };
+}
+
+describe("pageSetup", () => {
+  describe("getPageDimensions", () => {
+    it("should match the A4 constants by default", () => {
+      const page = getPageDimensions(DEFAULT_PAGE_SETUP);
+      expect(page.widthCm).toBe(21);
+      expect(page.heightCm).toBe(29.7);
+      expect(page.boxWidthCm).toBeCloseTo(BOX_WIDTH_CM);
+      expect(page.boxHeightCm).toBeCloseTo(BOX_HEIGHT_CM);
+      expect(page.widthPx).toBeCloseTo(21 * CM_TO_PX);
+    });
+
+    it("should use the standard paper sizes", () => {
+      const page = getPageDimensions(createSetup({ paperSize: "letter" }));
+      expect(page.widthCm).toBe(21.59);
+      expect(page.heightCm).toBe(27.94);
+    });
+
+    it("should swap width and height for landscape", () => {
+      const page = getPageDimensions(
+        createSetup({ paperSize: "a5", orientation: "landscape" }),
+      );
+      expect(page.widthCm).toBe(21);
+      expect(page.heightCm).toBe(14.8);
+    });
+
+    it("should use the custom size and margins", () => {
+      const page = getPageDimensions(
+        createSetup({
+          paperSize: "custom",
+          customWidthCm: 10,
+          customHeightCm: 15,
+          margins: { top: 2, right: 1, bottom: 2, left: 0.5 },
+        }),
+      );
+      expect(page.boxWidthCm).toBe(8.5);
+      expect(page.boxHeightCm).toBe(11);
+    });
+
+    it("should keep a minimum printable area", () => {
+      const page = getPageDimensions(
+        createSetup({
+          paperSize: "custom",
+          customWidthCm: 6,
+          customHeightCm: 6,
+          margins: { top: 5, right: 5, bottom: 5, left: 5 },
+        }),
+      );
+      expect(page.boxWidthCm).toBe(2);
+      expect(page.boxHeightCm).toBe(2);
+    });
+  });
+
+  describe("sanitizePageSetup", () => {
+    it("should fall back to the defaults for bad input", () => {
+      expect(sanitizePageSetup(null)).toEqual(DEFAULT_PAGE_SETUP);
+      expect(sanitizePageSetup("a4")).toEqual(DEFAULT_PAGE_SETUP);
+      expect(
+        sanitizePageSetup({ paperSize: "b5", orientation: "sideways" }),
+      ).toEqual(DEFAULT_PAGE_SETUP);
+      expect(sanitizePageSetup({ paperSize: "constructor" })).toEqual(
+        DEFAULT_PAGE_SETUP,
+      );
+    });
+
+    it("should keep valid settings", () => {
+      const setup = createSetup({
+        paperSize: "tabloid",
+        orientation: "landscape",
+        margins: { top: 1.5, right: 0, bottom: 1.5, left: 0.75 },
+      });
+      expect(sanitizePageSetup(setup)).toEqual(setup);
+    });
+
+    it("should clamp sizes and margins", () => {
+      const setup = sanitizePageSetup({
+        paperSize: "custom",
+        customWidthCm: 1,
+        customHeightCm: 500,
+        margins: { top: -1, right: 9, bottom: Number.NaN, left: 1.23456 },
+      });
+      expect(setup.customWidthCm).toBe(5);
+      expect(setup.customHeightCm).toBe(120);
+      expect(setup.margins).toEqual({ top: 0, right: 5, bottom: 1, left: 1.23 });
+    });
+  });
+
+  describe("describePageSetup", () => {
+    it("should name the paper and orientation", () => {
+      expect(describePageSetup(createSetup({ paperSize: "letter" }))).toBe(
+        "US Letter portrait",
+      );
+      expect(
+        describePageSetup(
+          createSetup({
+            paperSize: "custom",
+            orientation: "landscape",
+            customWidthCm: 10,
+            customHeightCm: 15,
+          }),
+        ),
+      ).toBe("10 × 15 cm landscape");
+    });
+  });
+});
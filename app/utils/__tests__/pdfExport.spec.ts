@@ -0,0 +1,189 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, it, expect } from "vitest";
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { createSetListPdf, type PdfExportOptions } from "../pdfExport";
+import { createEncoreMarker, createRunningOrderItem } from "@/stores/encore";
+import { createMockSet, createMockSong } from "@/__tests__/mockData";
+import { DEFAULT_PAGE_SETUP, getPageDimensions } from "../pageSetup";
+import { getPrintProfile } from "../printProfiles";
+
+const fontDir = resolve(__dirname, "../../../public/fonts");
+const fonts = {
+  sans: readFileSync(resolve(fontDir, "NotoSans-VariableFont_wdth,wght.ttf")),
+  music: readFileSync(resolve(fontDir, "NotoMusic-Regular.ttf")),
+};
+
+function createOptions(extra: Partial<PdfExportOptions> = {}): PdfExportOptions {
+  return {
+    metadata: {
+      setListName: "Summer Party",
+      venue: "The Barn",
+      date: "2026-07-04",
+      actName: "The Foxes",
+      startTime: "20:00",
+      curfew: "",
+      gigId: "",
+    },
+    pages: [
+      {
+        set: createMockSet("set-1", [
+          createMockSong("Jolene", { key: "E♭", duration: 180 }),
+          createMockSong("Valerie", { isOptional: true }),
+        ]),
+        name: "Set 1",
+        sizing: { fontSizePx: 48, lineHeight: 1.2 },
+      },
+      {
+        set: createMockSet("set-2", [
+          createMockSong("Mr Brightside"),
+          createEncoreMarker(),
+          createMockSong("Hey Jude", { key: "F♯m" }),
+        ]),
+        name: "Set 2",
+      },
+    ],
+    fonts,
+    ...extra,
+  };
+}
+
+describe("pdfExport", () => {
+  describe("createSetListPdf", () => {
+    it("should create one page per set", async () => {
+      const bytes = await createSetListPdf(createOptions());
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(2);
+      expect(doc.getTitle()).toBe("Summer Party");
+      expect(doc.getAuthor()).toBe("The Foxes");
+    });
+
+    it("should use A4 pages", async () => {
+      const doc = await PDFDocument.load(await createSetListPdf(createOptions()));
+      const { width, height } = doc.getPage(0).getSize();
+      expect(width).toBeCloseTo(595.3, 0);
+      expect(height).toBeCloseTo(841.9, 0);
+    });
+
+    it("should use the paper from the page setup", async () => {
+      const paper = getPageDimensions({
+        ...DEFAULT_PAGE_SETUP,
+        paperSize: "letter",
+        orientation: "landscape",
+      });
+      const doc = await PDFDocument.load(
+        await createSetListPdf(createOptions({ paper })),
+      );
+      const { width, height } = doc.getPage(0).getSize();
+      expect(width).toBeCloseTo(792, 0);
+      expect(height).toBeCloseTo(612, 0);
+    });
+
+    it("should embed the sans and music fonts", async () => {
+      const doc = await PDFDocument.load(await createSetListPdf(createOptions()));
+      const fontNames = doc.context
+        .enumerateIndirectObjects()
+        .map(([, object]) => object)
+        .filter(
+          (object): object is PDFDict =>
+            object instanceof PDFDict &&
+            object.get(PDFName.of("Type")) === PDFName.of("Font") &&
+            object.has(PDFName.of("FontDescriptor")),
+        )
+        .map((font) => font.get(PDFName.of("BaseFont"))?.toString());
+      expect(fontNames).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^\/NotoSans/),
+          expect.stringMatching(/^\/NotoMusic/),
+        ]),
+      );
+    });
+
+    it("should cope with long titles and all the extras switched on", async () => {
+      const songs = Array.from({ length: 40 }, (_, index) =>
+        createMockSong(`A very long song title number ${index + 1} that keeps going`, {
+          key: "B♭",
+          duration: 240,
+        }),
+      );
+      const bytes = await createSetListPdf(
+        createOptions({
+          pages: [
+            {
+              set: createMockSet("set-1", songs),
+              name: "Long Set",
+              sizing: { fontSizePx: 80, lineHeight: 1.8 },
+              schedule: {
+                startTime: 72000,
+                endTime: 81600,
+                songStartTimes: Object.fromEntries(
+                  songs.map((song, index) => [song.id, 72000 + index * 240]),
+                ),
+              },
+            },
+          ],
+          uppercase: true,
+          showNumbers: true,
+          showDurations: true,
+          showSongTimes: true,
+          totalDuration: 9600,
+        }),
+      );
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(1);
+    });
+
+    it("should print pages in other profiles with their details", async () => {
+      const set = createMockSet("set-1", [
+        createMockSong("Jolene", { key: "E", tempo: 112, cue: "Blue wash", duration: 180 }),
+        createMockSong("Valerie", { libraryId: "lib-1" }),
+      ]);
+      const pages = (["stage", "drummer", "sound", "lighting"] as const).map(
+        (id) => ({
+          set,
+          name: "Set 1",
+          profile: getPrintProfile(id),
+        }),
+      );
+      const bytes = await createSetListPdf(
+        createOptions({
+          pages,
+          songNotes: { Valerie: "Long intro, wait for the count" },
+          showNumbers: true,
+        }),
+      );
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(4);
+    });
+
+    it("should print running-order items among the songs", async () => {
+      const set = createMockSet("set-1", [
+        createRunningOrderItem("backing-track"),
+        createMockSong("Jolene", { key: "E" }),
+        { ...createRunningOrderItem("changeover"), duration: 120 },
+        createMockSong("Valerie"),
+      ]);
+      const bytes = await createSetListPdf(
+        createOptions({
+          pages: [{ set, name: "Set 1" }],
+          showNumbers: true,
+          uppercase: true,
+        }),
+      );
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(1);
+    });
+
+    it("should draw segues between songs", async () => {
+      const set = createMockSet("set-1", [
+        createMockSong("Jolene", { segueTo: "Valerie" }),
+        createMockSong("Valerie", { segueTo: "gone" }),
+      ]);
+      const bytes = await createSetListPdf(
+        createOptions({ pages: [{ set, name: "Set 1" }] }),
+      );
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(1);
+    });
+  });
+});
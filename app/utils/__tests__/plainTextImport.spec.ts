@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { parsePlainTextSetList, parseSongLine } from "../plainTextImport";
+import type { ImportedSet } from "../plainTextImport";
+
+function titles(set: ImportedSet | undefined): string[] {
+  return (set?.songs ?? []).map((song) =>
+    song.isEncoreMarker ? "<encore>" : song.title,
+  );
+}
+
+describe("plainTextImport", () => {
+  describe("parseSongLine", () => {
+    it("should read a key in brackets", () => {
+      expect(parseSongLine("Jolene (E)")).toEqual({
+        title: "Jolene",
+        key: "E",
+      });
+      expect(parseSongLine("Valerie [F#m]")).toEqual({
+        title: "Valerie",
+        key: "F#m",
+      });
+    });
+
+    it("should read a key after a spaced dash", () => {
+      expect(parseSongLine("Wonderwall - F#m")).toEqual({
+        title: "Wonderwall",
+        key: "F#m",
+      });
+      expect(parseSongLine("Mr Brightside – Db")).toEqual({
+        title: "Mr Brightside",
+        key: "Db",
+      });
+    });
+
+    it("should leave titles without a key alone", () => {
+      expect(parseSongLine("Ob-La-Di, Ob-La-Da")).toEqual({
+        title: "Ob-La-Di, Ob-La-Da",
+      });
+      expect(parseSongLine("Hey Jude (Live)")).toEqual({
+        title: "Hey Jude (Live)",
+      });
+      expect(parseSongLine("(E)")).toEqual({ title: "(E)" });
+    });
+  });
+
+  describe("parsePlainTextSetList", () => {
+    it("should put every line in one set", () => {
+      const result = parsePlainTextSetList("Jolene (E)\nValerie - Am\nHelp!");
+      expect(result.sets).toHaveLength(1);
+      expect(titles(result.sets[0])).toEqual(["Jolene", "Valerie", "Help!"]);
+      expect(result.sets[0]?.songs.map((song) => song.key)).toEqual([
+        "E",
+        "Am",
+        undefined,
+      ]);
+    });
+
+    it("should split sets on blank lines", () => {
+      const result = parsePlainTextSetList("One\nTwo\n\n\nThree\nFour\n");
+      expect(result.sets.map(titles)).toEqual([
+        ["One", "Two"],
+        ["Three", "Four"],
+      ]);
+    });
+
+    it("should split sets on headings and ignore blank lines", () => {
+      const result = parsePlainTextSetList(
+        "Set 1\nOne\n\nTwo\n\nSET TWO: Acoustic\nThree",
+      );
+      expect(result.sets.map(titles)).toEqual([["One", "Two"], ["Three"]]);
+      expect(result.sets[0]?.name).toBeUndefined();
+      expect(result.sets[1]?.name).toBe("Acoustic");
+    });
+
+    it("should place the encore marker", () => {
+      const result = parsePlainTextSetList("One\nTwo\n-- Encore --\nThree");
+      expect(titles(result.sets[0])).toEqual([
+        "One",
+        "Two",
+        "<encore>",
+        "Three",
+      ]);
+    });
+
+    it("should place a marker for each encore", () => {
+      const result = parsePlainTextSetList(
+        "One\nTwo\nEncore 1\nThree\n— encore 2 —\nFour",
+      );
+      expect(titles(result.sets[0])).toEqual([
+        "One",
+        "Two",
+        "<encore>",
+        "Three",
+        "<encore>",
+        "Four",
+      ]);
+    });
+
+    it("should not mistake encore song titles for the marker", () => {
+      const result = parsePlainTextSetList("Encore Une Fois");
+      expect(titles(result.sets[0])).toEqual(["Encore Une Fois"]);
+    });
+
+    it("should strip numbering, bullets and chat formatting", () => {
+      const result = parsePlainTextSetList(
+        [
+          "[12/03/2026, 18:22] Dave: *Set 1*",
+          "1. Jolene",
+          "2) Valerie",
+          "- Help!",
+          "• 99 Red Balloons",
+          "_1999_",
+        ].join("\n"),
+      );
+      expect(titles(result.sets[0])).toEqual([
+        "Jolene",
+        "Valerie",
+        "Help!",
+        "99 Red Balloons",
+        "1999",
+      ]);
+    });
+
+    it("should skip separator lines and empty sets", () => {
+      const result = parsePlainTextSetList("-----\n\nSet 1\n\nSet 2\nOne\n***");
+      expect(result.sets.map(titles)).toEqual([["One"]]);
+    });
+
+    it("should return no sets for empty text", () => {
+      expect(parsePlainTextSetList("  \n\n").sets).toEqual([]);
+    });
+  });
+});
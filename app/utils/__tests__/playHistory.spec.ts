@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  findLastPlayed,
+  formatLastPlayed,
+  sortGigsByDate,
+} from "../playHistory";
+import type { GigLogEntry, PlayedSong } from "@/stores/types";
+
+function createGig(
+  date: string,
+  songs: PlayedSong[],
+  venue = "The Venue",
+): GigLogEntry {
+  return {
+    id: `gig-${date}`,
+    date,
+    setListName: "",
+    venue,
+    actName: "",
+    songs,
+  };
+}
+
+const gigs = sortGigsByDate([
+  createGig("2026-01-10", [{ title: "Deep Cut", libraryId: "lib-1" }], "Club A"),
+  createGig("2026-03-01", [{ title: "Opener", libraryId: "lib-2" }], "Club B"),
+  createGig("2026-02-14", [{ title: "Old Favourite" }], "Club A"),
+]);
+
+describe("playHistory", () => {
+  describe("sortGigsByDate", () => {
+    it("should sort newest first", () => {
+      expect(gigs.map((gig) => gig.date)).toEqual([
+        "2026-03-01",
+        "2026-02-14",
+        "2026-01-10",
+      ]);
+    });
+  });
+
+  describe("findLastPlayed", () => {
+    it("should count gigs back from the latest", () => {
+      expect(findLastPlayed(gigs, { title: "Opener", libraryId: "lib-2" }))
+        .toMatchObject({ date: "2026-03-01", gigsAgo: 1 });
+      expect(findLastPlayed(gigs, { title: "Deep Cut", libraryId: "lib-1" }))
+        .toMatchObject({ date: "2026-01-10", gigsAgo: 3 });
+    });
+
+    it("should match by library id even when the title changed", () => {
+      expect(
+        findLastPlayed(gigs, { title: "Deep Cut (Live)", libraryId: "lib-1" }),
+      ).toMatchObject({ date: "2026-01-10" });
+    });
+
+    it("should fall back to titles for songs without a library id", () => {
+      expect(
+        findLastPlayed(gigs, { title: "old favourite", libraryId: "lib-3" }),
+      ).toMatchObject({ date: "2026-02-14", gigsAgo: 2 });
+    });
+
+    it("should report the last play at a venue", () => {
+      expect(
+        findLastPlayed(gigs, { title: "Deep Cut", libraryId: "lib-1" }, "club a"),
+      ).toMatchObject({ venueDate: "2026-01-10" });
+      expect(
+        findLastPlayed(gigs, { title: "Deep Cut", libraryId: "lib-1" }, "Club B")
+          ?.venueDate,
+      ).toBeUndefined();
+    });
+
+    it("should return null for songs never played", () => {
+      expect(findLastPlayed(gigs, { title: "New Song" })).toBeNull();
+    });
+  });
+
+  describe("formatLastPlayed", () => {
+    it("should describe unplayed songs", () => {
+      expect(formatLastPlayed(null)).toBe("Not played yet");
+    });
+
+    it("should name the most recent gig", () => {
+      expect(formatLastPlayed({ date: "2026-03-01", gigsAgo: 1 })).toMatch(
+        /^Last played at the latest gig \(/,
+      );
+    });
+
+    it("should count gigs ago and mention the venue", () => {
+      const text = formatLastPlayed({
+        date: "2026-01-10",
+        gigsAgo: 3,
+        venueDate: "2026-01-10",
+      });
+      expect(text).toMatch(/^Last played 3 gigs ago \(.+\), here .+$/);
+    });
+  });
+});
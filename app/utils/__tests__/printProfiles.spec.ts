@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRINT_COPIES,
+  buildPrintJob,
+  describePrintCopies,
+  formatSongDetails,
+  getPrintProfile,
+  getSongNotes,
+  resolvePrintOptions,
+  sanitizePrintCopies,
+  type PreviewPrintOptions,
+  type PrintProfileId,
+} from "../printProfiles";
+import { createMockSet, createMockSong } from "@/__tests__/mockData";
+import { LIMITS } from "@/constants/limits";
+
+const allOn: PreviewPrintOptions = {
+  uppercase: false,
+  showNumbers: true,
+  showDurations: true,
+  showSongTimes: true,
+  showNotes: true,
+  lowercaseMinor: false,
+};
+
+describe("printProfiles", () => {
+  describe("resolvePrintOptions", () => {
+    it("should follow the preview options for the standard profile", () => {
+      const options = resolvePrintOptions(getPrintProfile("standard"), allOn);
+      expect(options).toMatchObject(allOn);
+      expect(options.showMetadata).toBe(true);
+      expect(options.fields.key).toBe(true);
+    });
+
+    it("should print titles only, in capitals, on the stage copy", () => {
+      const options = resolvePrintOptions(getPrintProfile("stage"), allOn);
+      expect(options).toMatchObject({
+        uppercase: true,
+        showNumbers: false,
+        showSongTimes: false,
+        showDurations: false,
+        showMetadata: false,
+      });
+      expect(Object.values(options.fields).some(Boolean)).toBe(false);
+    });
+
+    it("should always print set times on the sound desk copy", () => {
+      const options = resolvePrintOptions(getPrintProfile("sound"), {
+        ...allOn,
+        showDurations: false,
+      });
+      expect(options.showDurations).toBe(true);
+    });
+
+    it("should print notes when switched on, and always for the sound desk", () => {
+      const notes = (id: PrintProfileId, showNotes: boolean) =>
+        resolvePrintOptions(getPrintProfile(id), { ...allOn, showNotes })
+          .fields.notes;
+      expect(notes("standard", true)).toBe(true);
+      expect(notes("standard", false)).toBe(false);
+      expect(notes("sound", false)).toBe(true);
+      expect(notes("stage", true)).toBe(false);
+    });
+  });
+
+  describe("getSongNotes", () => {
+    it("should prefer the song's own notes over the library's", () => {
+      const song = createMockSong("Jolene", { notes: "Capo 2" });
+      expect(getSongNotes(song, "Capo 4")).toBe("Capo 2");
+      expect(getSongNotes(createMockSong("Jolene"), "Capo 4")).toBe("Capo 4");
+      expect(getSongNotes(createMockSong("Jolene"))).toBeUndefined();
+    });
+  });
+
+  describe("formatSongDetails", () => {
+    const song = createMockSong("Jolene", {
+      tempo: 112,
+      duration: 185,
+      cue: "Blue wash",
+    });
+
+    it("should print only the profile's fields", () => {
+      const fields = (id: PrintProfileId) =>
+        resolvePrintOptions(getPrintProfile(id), {
+          ...allOn,
+          showNotes: false,
+        }).fields;
+      expect(formatSongDetails(song, fields("drummer"), "Capo 4")).toBe(
+        "112 bpm",
+      );
+      expect(formatSongDetails(song, fields("lighting"))).toBe("Blue wash");
+      expect(formatSongDetails(song, fields("stage"), "Capo 4")).toBe("");
+    });
+
+    it("should add the length and notes for the sound desk", () => {
+      const { fields } = resolvePrintOptions(getPrintProfile("sound"), allOn);
+      expect(formatSongDetails(song, fields, "Capo 4")).toBe("3:05 · Capo 4");
+    });
+
+    it("should skip missing details", () => {
+      const { fields } = resolvePrintOptions(getPrintProfile("sound"), allOn);
+      expect(formatSongDetails(createMockSong("Valerie"), fields)).toBe("");
+    });
+  });
+
+  describe("sanitizePrintCopies", () => {
+    it("should fall back to one standard copy", () => {
+      expect(sanitizePrintCopies(null)).toEqual(DEFAULT_PRINT_COPIES);
+      expect(sanitizePrintCopies({ standard: 0 })).toEqual(DEFAULT_PRINT_COPIES);
+    });
+
+    it("should round and clamp the counts", () => {
+      const copies = sanitizePrintCopies({
+        standard: 0,
+        stage: 3.6,
+        drummer: -2,
+        lighting: 1000,
+        sound: "2",
+      });
+      expect(copies).toEqual({
+        standard: 0,
+        stage: 4,
+        drummer: 0,
+        sound: 0,
+        lighting: LIMITS.MAX_PRINT_COPIES,
+      });
+    });
+  });
+
+  describe("describePrintCopies", () => {
+    it("should list the profiles with their counts", () => {
+      expect(
+        describePrintCopies({ ...DEFAULT_PRINT_COPIES, stage: 4, drummer: 1 }),
+      ).toBe("Standard, Stage ×4, Drummer");
+    });
+  });
+
+  describe("buildPrintJob", () => {
+    it("should collate each copy, profile by profile", () => {
+      const sets = [createMockSet("a", [createMockSong("a song")]), createMockSet("b", [createMockSong("b song")])];
+      const job = buildPrintJob(sets, {
+        ...DEFAULT_PRINT_COPIES,
+        standard: 1,
+        stage: 2,
+      });
+      expect(
+        job.map((page) => `${page.profile.id} ${page.copy} ${page.set.id}`),
+      ).toEqual([
+        "standard 1 a",
+        "standard 1 b",
+        "stage 1 a",
+        "stage 1 b",
+        "stage 2 a",
+        "stage 2 b",
+      ]);
+      expect(new Set(job.map((page) => page.key)).size).toBe(job.length);
+      expect(job[3]).toMatchObject({ setIndex: 1, copies: 2 });
+    });
+  });
+});
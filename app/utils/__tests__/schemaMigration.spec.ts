@@ -16,8 +16,8 @@ describe('schemaMigration', () => {
   })
 
   describe('CURRENT_SCHEMA_VERSION', () => {
-    it('should be defined as 1', () => {
-      expect(CURRENT_SCHEMA_VERSION).toBe(1)
+    it('should be defined as 3', () => {
+      expect(CURRENT_SCHEMA_VERSION).toBe(3)
     })
   })
 
@@ -189,10 +189,40 @@ describe('schemaMigration', () => {
       })
     })
 
-    describe('current version data (version 1 with schemaVersion field)', () => {
+    describe('version 1 data with schemaVersion field', () => {
+      it('should upgrade version 1 data to the current schema version', () => {
+        const v1Data = {
+          schemaVersion: 1,
+          sets: [{ id: 'set-1', songs: [{ id: 'song-1', title: 'Song' }] }]
+        }
+
+        const result = migrateToCurrentSchema(v1Data)
+
+        expect(result).not.toBeNull()
+        expect(result?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+        expect(result?.sets).toEqual(v1Data.sets)
+      })
+    })
+
+    describe('version 2 data with song durations', () => {
+      it('should upgrade version 2 data to the current schema version', () => {
+        const v2Data = {
+          schemaVersion: 2,
+          sets: [{ id: 'set-1', songs: [{ id: 'song-1', title: 'Song', duration: 215 }] }]
+        }
+
+        const result = migrateToCurrentSchema(v2Data)
+
+        expect(result).not.toBeNull()
+        expect(result?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+        expect(result?.sets).toEqual(v2Data.sets)
+      })
+    })
+
+    describe('current version data (version 3 with optional song details)', () => {
       it('should pass through data that already has current schema version', () => {
         const currentData = {
-          schemaVersion: 1,
+          schemaVersion: 3,
           metadata: {
             setListName: 'Current Show',
             venue: 'Venue',
@@ -202,7 +232,10 @@ describe('schemaMigration', () => {
           sets: [
             {
               id: 'set-1',
-              songs: [{ id: 'song-1', title: 'Song' }],
+              songs: [
+                { id: 'song-1', title: 'Song', duration: 215, tempo: 120, segueTo: 'Next' },
+                { id: 'song-2', title: 'Acoustic', isSectionMarker: true }
+              ],
               metrics: {
                 longestEntryId: null,
                 longestEntryText: '',
@@ -223,7 +256,7 @@ describe('schemaMigration', () => {
 
       it('should ensure schemaVersion is set even if data claims to be current', () => {
         const data = {
-          schemaVersion: 1,
+          schemaVersion: 3,
           sets: []
         }
 
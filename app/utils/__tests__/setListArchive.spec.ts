@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterArchivedSetLists,
+  getCopyName,
+  sortArchivedSetLists,
+} from "../setListArchive";
+import type { ArchivedSetList, SetListMetadata } from "@/stores/types";
+
+function createEntry(
+  id: string,
+  updatedAt: number,
+  metadata: Partial<SetListMetadata> = {},
+): ArchivedSetList {
+  return {
+    id,
+    updatedAt,
+    state: {
+      schemaVersion: 2,
+      metadata: {
+        setListName: "",
+        venue: "",
+        date: "",
+        actName: "",
+        startTime: "",
+        curfew: "",
+        gigId: "",
+        ...metadata,
+      },
+      sets: [],
+    },
+  };
+}
+
+const entries = [
+  createEntry("a", 100, {
+    setListName: "Wedding",
+    venue: "The Barn",
+    date: "2026-06-01",
+  }),
+  createEntry("b", 300, {
+    setListName: "Pub Night",
+    actName: "The Foxes",
+    date: "2026-08-14",
+  }),
+  createEntry("c", 200, { setListName: "acoustic" }),
+];
+
+const ids = (list: ArchivedSetList[]) => list.map((entry) => entry.id);
+
+describe("setListArchive", () => {
+  describe("sortArchivedSetLists", () => {
+    it("should put the most recently saved first by default", () => {
+      expect(ids(sortArchivedSetLists(entries))).toEqual(["b", "c", "a"]);
+    });
+
+    it("should sort by name ignoring case", () => {
+      expect(ids(sortArchivedSetLists(entries, "name"))).toEqual([
+        "c",
+        "b",
+        "a",
+      ]);
+    });
+
+    it("should sort by date newest first with undated entries last", () => {
+      expect(ids(sortArchivedSetLists(entries, "date"))).toEqual([
+        "b",
+        "a",
+        "c",
+      ]);
+    });
+
+    it("should not mutate the input", () => {
+      sortArchivedSetLists(entries, "name");
+      expect(ids(entries)).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("filterArchivedSetLists", () => {
+    it("should return everything for an empty query", () => {
+      expect(filterArchivedSetLists(entries, "  ")).toBe(entries);
+    });
+
+    it("should match name, act, venue and date", () => {
+      expect(ids(filterArchivedSetLists(entries, "wed"))).toEqual(["a"]);
+      expect(ids(filterArchivedSetLists(entries, "foxes"))).toEqual(["b"]);
+      expect(ids(filterArchivedSetLists(entries, "barn"))).toEqual(["a"]);
+      expect(ids(filterArchivedSetLists(entries, "2026-08"))).toEqual(["b"]);
+    });
+  });
+
+  describe("getCopyName", () => {
+    it("should append (copy)", () => {
+      expect(getCopyName("Wedding", ["Wedding"])).toBe("Wedding (copy)");
+    });
+
+    it("should number further copies", () => {
+      expect(
+        getCopyName("Wedding", ["Wedding", "Wedding (copy)"]),
+      ).toBe("Wedding (copy 2)");
+      expect(
+        getCopyName("Wedding (copy)", [
+          "Wedding",
+          "Wedding (copy)",
+          "Wedding (copy 2)",
+        ]),
+      ).toBe("Wedding (copy 3)");
+    });
+
+    it("should name untitled set lists", () => {
+      expect(getCopyName("", [])).toBe("Untitled (copy)");
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  csvRowsToSets,
+  guessColumnMapping,
+  setListToCsvRows,
+  type CsvColumnMapping,
+} from "../setListCsv";
+import {
+  createEncoreMarker,
+  createRunningOrderItem,
+  createSectionMarker,
+} from "@/stores/encore";
+import type { ImportedSet } from "../plainTextImport";
+import { createMockSet, createMockSong } from "@/__tests__/mockData";
+
+function titles(set: ImportedSet | undefined): string[] {
+  return (set?.songs ?? []).map((song) =>
+    song.isEncoreMarker ? "<encore>" : song.title,
+  );
+}
+
+const sets = [
+  createMockSet("set-1", [
+    createMockSong("Jolene", { key: "E", duration: 200 }),
+    createMockSong("Valerie", { isOptional: true, libraryId: "lib-1" }),
+  ]),
+  createMockSet(
+    "set-2",
+    [
+      createMockSong("Mr Brightside"),
+      createEncoreMarker(),
+      createMockSong("Hey Jude", { key: "F" }),
+    ],
+    { name: "Party" },
+  ),
+];
+
+describe("setListCsv", () => {
+  describe("setListToCsvRows", () => {
+    it("should write a header and one row per song", () => {
+      const rows = setListToCsvRows(sets);
+      expect(rows[0]).toEqual([
+        "Set",
+        "Set Name",
+        "Position",
+        "Type",
+        "Title",
+        "Key",
+        "Duration",
+        "Tempo",
+        "Optional",
+        "Encore",
+        "Segue To",
+        "Notes",
+        "Cue",
+        "Library ID",
+      ]);
+      expect(rows.slice(1)).toEqual([
+        ["1", "", "1", "", "Jolene", "E", "3:20", "", "", "", "", "", "", ""],
+        ["1", "", "2", "", "Valerie", "", "", "", "yes", "", "", "", "", "lib-1"],
+        ["2", "Party", "1", "", "Mr Brightside", "", "", "", "", "", "", "", "", ""],
+        ["2", "Party", "2", "", "Hey Jude", "F", "", "", "", "yes", "", "", "", ""],
+      ]);
+    });
+
+    it("should mark running-order items and section markers by type", () => {
+      const withItem = createMockSet("set-1", [
+        createRunningOrderItem("spoken-intro"),
+        createSectionMarker("Acoustic"),
+        createMockSong("Jolene"),
+      ]);
+      const rows = setListToCsvRows([withItem]).slice(1);
+      expect(rows.map((row) => row.slice(2, 5))).toEqual([
+        ["1", "spoken-intro", "Spoken intro"],
+        ["2", "section", "Acoustic"],
+        ["3", "", "Jolene"],
+      ]);
+    });
+
+    it("should number encore breaks when a set has several", () => {
+      const withEncores = createMockSet("set-1", [
+        createMockSong("Jolene"),
+        createEncoreMarker(),
+        createMockSong("Valerie"),
+        createEncoreMarker(),
+        createMockSong("Hey Jude"),
+      ]);
+      const rows = setListToCsvRows([withEncores]).slice(1);
+      expect(rows.map((row) => row[9])).toEqual(["", "1", "2"]);
+    });
+
+    it("should name the song a segue runs into", () => {
+      const withSegue = createMockSet("set-1", [
+        createMockSong("Jolene", { segueTo: "Valerie" }),
+        createMockSong("Valerie"),
+      ]);
+      const rows = setListToCsvRows([withSegue]).slice(1);
+      expect(rows.map((row) => row[10])).toEqual(["Valerie", ""]);
+    });
+  });
+
+  describe("guessColumnMapping", () => {
+    it("should recognise exported headers", () => {
+      const mapping = guessColumnMapping(setListToCsvRows(sets)[0] ?? []);
+      expect(mapping).toEqual({
+        set: 0,
+        setName: 1,
+        position: 2,
+        type: 3,
+        title: 4,
+        key: 5,
+        duration: 6,
+        tempo: 7,
+        optional: 8,
+        encore: 9,
+        segueTo: 10,
+        notes: 11,
+        cue: 12,
+        libraryId: 13,
+      });
+    });
+
+    it("should recognise common alternatives and leave the rest unmapped", () => {
+      const mapping = guessColumnMapping(["Song", "Length", "BPM", "Extra"]);
+      expect(mapping.title).toBe(0);
+      expect(mapping.duration).toBe(1);
+      expect(mapping.tempo).toBe(2);
+      expect(mapping.set).toBeNull();
+      expect(mapping.key).toBeNull();
+    });
+  });
+
+  describe("csvRowsToSets", () => {
+    it("should round trip an export", () => {
+      const [header, ...rows] = setListToCsvRows(sets);
+      const result = csvRowsToSets(rows, guessColumnMapping(header ?? []));
+
+      expect(result.map(titles)).toEqual([
+        ["Jolene", "Valerie"],
+        ["Mr Brightside", "<encore>", "Hey Jude"],
+      ]);
+      expect(result[1]?.name).toBe("Party");
+      expect(result[0]?.songs[0]).toMatchObject({ key: "E", duration: 200 });
+      expect(result[0]?.songs[1]).toMatchObject({
+        isOptional: true,
+        libraryId: "lib-1",
+      });
+    });
+
+    it("should round trip notes, tempo, cues, segues and item types", () => {
+      const detailed = [
+        createMockSet("set-1", [
+          createRunningOrderItem("spoken-intro"),
+          createSectionMarker("Acoustic"),
+          createMockSong("Jolene", {
+            tempo: 112,
+            cue: "Blue wash",
+            notes: "Capo 4, \"slow\" intro",
+            segueTo: "Valerie",
+          }),
+          createMockSong("Valerie"),
+          createEncoreMarker(),
+          createRunningOrderItem("changeover"),
+          createEncoreMarker(),
+          createMockSong("Hey Jude"),
+        ]),
+      ];
+      const [header, ...rows] = setListToCsvRows(detailed);
+      const [result] = csvRowsToSets(rows, guessColumnMapping(header ?? []));
+      const songs = result?.songs ?? [];
+
+      expect(titles(result)).toEqual([
+        "Spoken intro",
+        "Acoustic",
+        "Jolene",
+        "Valerie",
+        "<encore>",
+        "Guitar changeover",
+        "<encore>",
+        "Hey Jude",
+      ]);
+      expect(songs[0]?.itemType).toBe("spoken-intro");
+      expect(songs[1]?.isSectionMarker).toBe(true);
+      expect(songs[2]).toMatchObject({
+        tempo: 112,
+        cue: "Blue wash",
+        notes: 'Capo 4, "slow" intro',
+        segueTo: songs[3]?.id,
+      });
+      expect(songs[5]?.itemType).toBe("changeover");
+    });
+
+    it("should read item types by label", () => {
+      const mapping = guessColumnMapping(["Type", "Title"]);
+      const [result] = csvRowsToSets(
+        [
+          ["Band intros", "Meet the band"],
+          ["Section", "Acoustic"],
+          ["song", "Jolene"],
+        ],
+        mapping,
+      );
+      expect(result?.songs.map((song) => song.itemType)).toEqual([
+        "band-intros",
+        undefined,
+        undefined,
+      ]);
+      expect(result?.songs[1]?.isSectionMarker).toBe(true);
+    });
+
+    it("should put everything in one set without a set column", () => {
+      const mapping = guessColumnMapping(["Title"]);
+      const result = csvRowsToSets([["One"], [""], ["Two"]], mapping);
+      expect(result.map(titles)).toEqual([["One", "Two"]]);
+    });
+
+    it("should order sets by number and songs by position", () => {
+      const mapping: CsvColumnMapping = {
+        ...guessColumnMapping([]),
+        set: 0,
+        position: 1,
+        title: 2,
+      };
+      const result = csvRowsToSets(
+        [
+          ["2", "1", "Three"],
+          ["1", "2", "Two"],
+          ["1", "1", "One"],
+          ["1", "", "Unnumbered"],
+        ],
+        mapping,
+      );
+      expect(result.map(titles)).toEqual([
+        ["One", "Two", "Unnumbered"],
+        ["Three"],
+      ]);
+    });
+
+    it("should use set values that aren't numbers as names", () => {
+      const mapping: CsvColumnMapping = {
+        ...guessColumnMapping([]),
+        set: 0,
+        title: 1,
+      };
+      const result = csvRowsToSets(
+        [
+          ["Acoustic", "One"],
+          ["Electric", "Two"],
+        ],
+        mapping,
+      );
+      expect(result.map((set) => set.name)).toEqual(["Acoustic", "Electric"]);
+    });
+  });
+});
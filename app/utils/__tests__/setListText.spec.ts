@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { formatSetListText, type TextExportSet } from "../setListText";
+import {
+  createEncoreMarker,
+  createRunningOrderItem,
+  createSectionMarker,
+} from "@/stores/encore";
+import { createMockSet, createMockSong } from "@/__tests__/mockData";
+import type { SetListMetadata } from "@/stores/types";
+
+const metadata: SetListMetadata = {
+  setListName: "Summer Party",
+  venue: "The Barn",
+  date: "",
+  actName: "The Foxes",
+  startTime: "",
+  curfew: "",
+  gigId: "",
+};
+
+function createSets(): TextExportSet[] {
+  return [
+    {
+      name: "Set 1",
+      set: createMockSet("set-1", [
+        createMockSong("Jolene", { key: "E" }),
+        createMockSong("Valerie", { isOptional: true }),
+      ]),
+    },
+    {
+      name: "Party Time",
+      set: createMockSet("set-2", [
+        createMockSong("Mr Brightside"),
+        createEncoreMarker(),
+        createMockSong("Hey_Jude", { key: "F" }),
+      ]),
+    },
+  ];
+}
+
+describe("setListText", () => {
+  describe("formatSetListText", () => {
+    it("should render plain text", () => {
+      expect(formatSetListText(metadata, createSets())).toBe(
+        [
+          "Summer Party",
+          "The Foxes · The Barn",
+          "",
+          "Set 1",
+          "-----",
+          "1. Jolene (E)",
+          "2. [Valerie]",
+          "",
+          "Party Time",
+          "----------",
+          "1. Mr Brightside",
+          "— Encores —",
+          "2. Hey_Jude (F)",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should render Markdown with escaping", () => {
+      expect(formatSetListText(metadata, createSets(), "markdown")).toBe(
+        [
+          "# Summer Party",
+          "The Foxes · The Barn",
+          "",
+          "## Set 1",
+          "1. Jolene (E)",
+          "2. \\[Valerie\\]",
+          "",
+          "## Party Time",
+          "1. Mr Brightside",
+          "",
+          "*— Encores —*",
+          "",
+          "2. Hey\\_Jude (F)",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should number the dividers of a double encore", () => {
+      const sets = createSets();
+      sets[1]?.set.songs.push(createEncoreMarker(), createMockSong("Angels"));
+
+      const text = formatSetListText(metadata, sets);
+      expect(text).toContain(
+        [
+          "1. Mr Brightside",
+          "— Encore 1 —",
+          "2. Hey_Jude (F)",
+          "— Encore 2 —",
+          "3. Angels",
+        ].join("\n"),
+      );
+    });
+
+    it("should show encore dividers in any set", () => {
+      const sets = createSets();
+      sets[0]?.set.songs.splice(1, 0, createEncoreMarker());
+      expect(formatSetListText(metadata, sets)).toContain(
+        "1. Jolene (E)\n— Encores —\n2. [Valerie]",
+      );
+    });
+
+    it("should show section dividers by name", () => {
+      const sets = createSets();
+      sets[0]?.set.songs.splice(1, 0, createSectionMarker("Acoustic"));
+      sets[1]?.set.songs.push(
+        createSectionMarker("Medley"),
+        createMockSong("Angels"),
+      );
+
+      const text = formatSetListText(metadata, sets);
+      expect(text).toContain("1. Jolene (E)\n— Acoustic —\n2. [Valerie]");
+      expect(text).toContain(
+        ["— Encores —", "2. Hey_Jude (F)", "— Medley —", "3. Angels"].join(
+          "\n",
+        ),
+      );
+    });
+
+    it("should keep section names as typed and escape them in Markdown", () => {
+      const sets = createSets();
+      sets[0]?.set.songs.splice(1, 0, createSectionMarker("*Unplugged* DJ_Set"));
+
+      expect(formatSetListText(metadata, sets)).toContain(
+        "— *Unplugged* DJ_Set —",
+      );
+      expect(formatSetListText(metadata, sets, "markdown")).toContain(
+        "\n*— \\*Unplugged\\* DJ\\_Set —*\n",
+      );
+    });
+
+    it("should leave out an empty metadata header", () => {
+      const text = formatSetListText(
+        { ...metadata, setListName: "", venue: "", actName: "" },
+        createSets(),
+      );
+      expect(text.startsWith("Set 1\n")).toBe(true);
+    });
+
+    it("should list running-order items without numbering them", () => {
+      const sets = createSets();
+      sets[0]?.set.songs.splice(1, 0, createRunningOrderItem("changeover"));
+
+      const text = formatSetListText(metadata, sets);
+      expect(text).toContain(
+        ["1. Jolene (E)", "- Guitar changeover", "2. [Valerie]"].join("\n"),
+      );
+      expect(formatSetListText(metadata, sets, "markdown")).toContain(
+        "- *Guitar changeover*",
+      );
+    });
+  });
+});
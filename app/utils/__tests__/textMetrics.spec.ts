@@ -46,6 +46,11 @@ describe("textMetrics", () => {
     it("should handle 'Untitled Song' with key", () => {
       expect(formatSongLabel("", "Em")).toBe("Untitled Song (Em)");
     });
+
+    it("should print keys with flat and sharp symbols", () => {
+      expect(formatSongLabel("My Song", "Bbm")).toBe("My Song (B♭m)");
+      expect(formatSongLabel("My Song", "F#m", true)).toBe("My Song (f♯)");
+    });
   });
 
   describe("measureTextWidth", () => {
@@ -86,6 +91,12 @@ describe("textMetrics", () => {
       expect(labelWidth).toBe(directWidth);
     });
 
+    it("should measure the key as printed", () => {
+      const labelWidth = measureSongLabelWidth("My Song", "Bb");
+      const directWidth = measureTextWidth("My Song (B♭)");
+      expect(labelWidth).toBe(directWidth);
+    });
+
     it("should measure song label without key", () => {
       const labelWidth = measureSongLabelWidth("My Song");
       const directWidth = measureTextWidth("My Song");
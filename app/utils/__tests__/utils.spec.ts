@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatClockTime,
+  formatDuration,
+  formatSongDuration,
+  parseClockTime,
+  parseDuration,
+} from "../utils";
+
+describe("utils", () => {
+  describe("formatDuration", () => {
+    it("should return '0s' for zero or negative durations", () => {
+      expect(formatDuration(0)).toBe("0s");
+      expect(formatDuration(-5)).toBe("0s");
+    });
+
+    it("should format minutes and seconds", () => {
+      expect(formatDuration(225)).toBe("3m 45s");
+    });
+
+    it("should pad minutes when hours are present", () => {
+      expect(formatDuration(3900)).toBe("1h 05m");
+    });
+  });
+
+  describe("formatSongDuration", () => {
+    it("should return an empty string for missing durations", () => {
+      expect(formatSongDuration(undefined)).toBe("");
+      expect(formatSongDuration(0)).toBe("");
+    });
+
+    it("should format as m:ss", () => {
+      expect(formatSongDuration(225)).toBe("3:45");
+      expect(formatSongDuration(62)).toBe("1:02");
+    });
+
+    it("should format as h:mm:ss past an hour", () => {
+      expect(formatSongDuration(3725)).toBe("1:02:05");
+    });
+  });
+
+  describe("parseDuration", () => {
+    it("should parse m:ss", () => {
+      expect(parseDuration("3:45")).toBe(225);
+      expect(parseDuration("12:05")).toBe(725);
+    });
+
+    it("should parse h:mm:ss", () => {
+      expect(parseDuration("1:02:05")).toBe(3725);
+    });
+
+    it("should treat a bare number as minutes", () => {
+      expect(parseDuration("4")).toBe(240);
+    });
+
+    it("should trim surrounding whitespace", () => {
+      expect(parseDuration("  3:45 ")).toBe(225);
+    });
+
+    it("should return undefined for empty input", () => {
+      expect(parseDuration(undefined)).toBeUndefined();
+      expect(parseDuration("")).toBeUndefined();
+      expect(parseDuration("   ")).toBeUndefined();
+    });
+
+    it("should reject out-of-range seconds and minutes", () => {
+      expect(parseDuration("3:75")).toBeUndefined();
+      expect(parseDuration("1:75:00")).toBeUndefined();
+    });
+
+    it("should reject zero and unparseable input", () => {
+      expect(parseDuration("0:00")).toBeUndefined();
+      expect(parseDuration("0")).toBeUndefined();
+      expect(parseDuration("three minutes")).toBeUndefined();
+      expect(parseDuration("3.45")).toBeUndefined();
+    });
+
+    it("should round-trip with formatSongDuration", () => {
+      expect(parseDuration(formatSongDuration(3725))).toBe(3725);
+      expect(parseDuration(formatSongDuration(225))).toBe(225);
+    });
+  });
+
+  describe("parseClockTime", () => {
+    it("should parse 24-hour times into seconds since midnight", () => {
+      expect(parseClockTime("20:30")).toBe(73800);
+      expect(parseClockTime("8:05")).toBe(29100);
+      expect(parseClockTime("00:00")).toBe(0);
+    });
+
+    it("should reject empty or invalid times", () => {
+      expect(parseClockTime(undefined)).toBeUndefined();
+      expect(parseClockTime("")).toBeUndefined();
+      expect(parseClockTime("24:00")).toBeUndefined();
+      expect(parseClockTime("20:60")).toBeUndefined();
+      expect(parseClockTime("8pm")).toBeUndefined();
+    });
+  });
+
+  describe("formatClockTime", () => {
+    it("should format as zero-padded HH:MM", () => {
+      expect(formatClockTime(29100)).toBe("08:05");
+      expect(formatClockTime(73800)).toBe("20:30");
+    });
+
+    it("should round to the nearest minute", () => {
+      expect(formatClockTime(73800 + 29)).toBe("20:30");
+      expect(formatClockTime(73800 + 30)).toBe("20:31");
+    });
+
+    it("should wrap past midnight", () => {
+      expect(formatClockTime(24 * 3600 + 600)).toBe("00:10");
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/** Raw bytes of the bundled TrueType fonts */
+export interface BundledFonts {
+  /** NotoSans, used for all text */
+  sans: ArrayBuffer | Uint8Array
+  /** NotoMusic, used for ♭, ♯ and the other music symbols */
+  music: ArrayBuffer | Uint8Array
+}
+
+/** Font files in public/fonts */
+export const BUNDLED_FONT_FILES = {
+  sans: 'NotoSans-VariableFont_wdth,wght.ttf',
+  music: 'NotoMusic-Regular.ttf'
+} as const
+
+/**
+ * Fonts are fetched once and kept for later exports.
+ */
+let fontsPromise: Promise<BundledFonts> | null = null
+
+async function fetchFont(baseURL: string, file: string): Promise<ArrayBuffer> {
+  const response = await fetch(`${baseURL}fonts/${file}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load font ${file}: ${response.status}`)
+  }
+  return response.arrayBuffer()
+}
+
+/**
+ * Load the bundled fonts for embedding in exported files
+ *
+ * @param baseURL - The app's base URL, e.g. from `useRuntimeConfig().app`
+ */
+export function loadBundledFonts(baseURL: string): Promise<BundledFonts> {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all([
+      fetchFont(baseURL, BUNDLED_FONT_FILES.sans),
+      fetchFont(baseURL, BUNDLED_FONT_FILES.music)
+    ]).then(([sans, music]) => ({ sans, music }))
+    // Let a failed fetch be retried next time
+    fontsPromise.catch(() => {
+      fontsPromise = null
+    })
+  }
+  return fontsPromise
+}
@@ -0,0 +1,88 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing.
+ */
+
+/**
+ * Quote a field if it contains the delimiter, quotes or line breaks.
+ */
+function escapeField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * Turn rows of fields into CSV text with CRLF line endings, as spreadsheets expect.
+ */
+export function toCsv(rows: string[][], delimiter = ','): string {
+  return rows
+    .map(row => row.map(field => escapeField(field, delimiter)).join(delimiter))
+    .join('\r\n')
+}
+
+/**
+ * Guess the delimiter from the first line: spreadsheets in many European
+ * locales export with semicolons, and copying cells gives tabs.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r\n|\r|\n/, 1)[0] ?? ''
+  const candidates = [',', ';', '\t']
+  const counts = candidates.map(
+    delimiter => firstLine.split(delimiter).length - 1
+  )
+  const best = Math.max(...counts)
+  return best > 0 ? (candidates[counts.indexOf(best)] ?? ',') : ','
+}
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with embedded
+ * delimiters, quotes and line breaks. Blank lines are dropped.
+ */
+export function parseCsv(
+  text: string,
+  delimiter = detectDelimiter(text)
+): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Drop a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
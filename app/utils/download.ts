@@ -0,0 +1,18 @@
+/**
+ * Offer content to the user as a file download.
+ */
+export function downloadFile(
+  content: BlobPart,
+  filename: string,
+  type: string
+): void {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  document.body.appendChild(anchor)
+  anchor.click()
+  document.body.removeChild(anchor)
+  URL.revokeObjectURL(url)
+}
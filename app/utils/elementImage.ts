@@ -0,0 +1,174 @@
+const XHTML_NS = 'http://www.w3.org/1999/xhtml'
+
+export interface ElementImageOptions {
+  /** `@font-face` rules to embed, e.g. from `fontFaceCss` */
+  fontCss?: string
+  /** Extra styles for the root element, e.g. to drop a screen-only shadow */
+  rootStyle?: Partial<Record<string, string>>
+}
+
+/**
+ * Encode bytes as base64 without building one huge argument list.
+ */
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+/**
+ * An `@font-face` rule with the font inlined as a data URL, since an SVG
+ * used as an image can't load anything from outside itself.
+ */
+export function fontFaceCss(
+  family: string,
+  data: ArrayBuffer | Uint8Array,
+  weight = '100 900'
+): string {
+  return `@font-face { font-family: "${family}"; font-weight: ${weight}; src: url(data:font/ttf;base64,${toBase64(data)}) format("truetype"); }`
+}
+
+/**
+ * Reads the browser's default styles per tag from a blank iframe, so only
+ * the styles the app changes need to be written out.
+ */
+function createDefaultStyleReader() {
+  const frame = document.createElement('iframe')
+  frame.setAttribute('aria-hidden', 'true')
+  frame.style.cssText =
+    'position: absolute; width: 0; height: 0; border: 0; visibility: hidden;'
+  document.body.appendChild(frame)
+
+  const cache = new Map<string, Map<string, string>>()
+
+  function get(tagName: string): Map<string, string> {
+    let defaults = cache.get(tagName)
+    if (defaults) return defaults
+
+    defaults = new Map()
+    const doc = frame.contentDocument
+    const view = frame.contentWindow
+    if (doc && view) {
+      const element = doc.createElement(tagName)
+      doc.body.appendChild(element)
+      const style = view.getComputedStyle(element)
+      for (let i = 0; i < style.length; i++) {
+        const name = style.item(i)
+        defaults.set(name, style.getPropertyValue(name))
+      }
+      element.remove()
+    }
+    cache.set(tagName, defaults)
+    return defaults
+  }
+
+  return { get, dispose: () => frame.remove() }
+}
+
+/**
+ * Write the computed styles of `source` and its descendants onto the
+ * matching elements of `clone`, which must be a deep clone of `source`.
+ */
+function inlineComputedStyles(source: HTMLElement, clone: HTMLElement): void {
+  const defaults = createDefaultStyleReader()
+  const sources = [
+    source,
+    ...Array.from(source.querySelectorAll<HTMLElement>('*'))
+  ]
+  const clones = [clone, ...Array.from(clone.querySelectorAll<HTMLElement>('*'))]
+
+  try {
+    sources.forEach((element, index) => {
+      const target = clones[index]
+      if (!target) return
+
+      const style = window.getComputedStyle(element)
+      const parentStyle =
+        element === source || !element.parentElement
+          ? null
+          : window.getComputedStyle(element.parentElement)
+      const tagDefaults = defaults.get(element.tagName.toLowerCase())
+
+      // Keep a property when it differs from the browser default, or from
+      // the parent so inherited values don't leak into this element
+      const declarations: string[] = []
+      for (let i = 0; i < style.length; i++) {
+        const name = style.item(i)
+        const value = style.getPropertyValue(name)
+        if (
+          element === source ||
+          value !== tagDefaults.get(name) ||
+          (parentStyle && value !== parentStyle.getPropertyValue(name))
+        ) {
+          declarations.push(`${name}: ${value};`)
+        }
+      }
+      target.setAttribute('style', declarations.join(' '))
+      target.removeAttribute('class')
+    })
+  } finally {
+    defaults.dispose()
+  }
+}
+
+/**
+ * Render an element, as currently laid out on screen, to a standalone SVG.
+ * The element is copied into a `<foreignObject>` with its computed styles
+ * inlined, so it looks the same outside the app.
+ */
+export function elementToSvg(
+  element: HTMLElement,
+  options: ElementImageOptions = {}
+): { svg: string; width: number; height: number } {
+  const width = element.offsetWidth
+  const height = element.offsetHeight
+
+  const clone = element.cloneNode(true) as HTMLElement
+  inlineComputedStyles(element, clone)
+  for (const [name, value] of Object.entries(options.rootStyle ?? {})) {
+    if (value !== undefined) clone.style.setProperty(name, value)
+  }
+  clone.setAttribute('xmlns', XHTML_NS)
+
+  const content = new XMLSerializer().serializeToString(clone)
+  const fontCss = options.fontCss ? `<style>${options.fontCss}</style>` : ''
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `${fontCss}<foreignObject x="0" y="0" width="100%" height="100%">${content}</foreignObject></svg>`
+
+  return { svg, width, height }
+}
+
+/**
+ * Draw an SVG onto a canvas and return it as a PNG.
+ *
+ * @param scale - Pixels per CSS pixel; 3 gives about 290 dpi on A4
+ */
+export async function svgToPng(
+  svg: string,
+  width: number,
+  height: number,
+  scale = 3
+): Promise<Blob> {
+  const image = new Image()
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context is not available')
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob)
+      else reject(new Error('Failed to encode PNG'))
+    }, 'image/png')
+  })
+}
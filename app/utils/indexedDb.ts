@@ -0,0 +1,142 @@
+/**
+ * Minimal promise wrapper around IndexedDB for data too large or too
+ * structured for localStorage.
+ */
+
+const DB_NAME = "set-lister";
+const DB_VERSION = 2;
+
+/** Object stores in the app database */
+export const IDB_STORES = {
+  /** Archived set lists, keyed by id */
+  SET_LISTS: "setLists",
+  /** Recently opened or saved files (FileSystemFileHandles), keyed by id */
+  FILE_HANDLES: "fileHandles",
+} as const;
+
+export type IdbStoreName = (typeof IDB_STORES)[keyof typeof IDB_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check if IndexedDB is available
+ */
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== "undefined" && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and create or upgrade) the app database.
+ * The connection is shared, so repeated calls are cheap.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of Object.values(IDB_STORES)) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: "id" });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let a failed open be retried later
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Resolve once a transaction has committed, so a write isn't reported as
+ * saved before it is.
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () =>
+      reject(transaction.error ?? new DOMException("Aborted", "AbortError"));
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Run one request in its own transaction. Reads resolve with the request's
+ * result; writes wait for the transaction to commit.
+ */
+async function withStore<T>(
+  storeName: IdbStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(run(transaction.objectStore(storeName)));
+  if (mode === "readonly") return result;
+
+  const [value] = await Promise.all([
+    result,
+    transactionToPromise(transaction),
+  ]);
+  return value;
+}
+
+/**
+ * Read every record in a store.
+ */
+export function idbGetAll<T>(storeName: IdbStoreName): Promise<T[]> {
+  return withStore(storeName, "readonly", (store) => store.getAll());
+}
+
+/**
+ * Read one record by key. Resolves to undefined if it doesn't exist.
+ */
+export function idbGet<T>(
+  storeName: IdbStoreName,
+  key: IDBValidKey,
+): Promise<T | undefined> {
+  return withStore(storeName, "readonly", (store) => store.get(key));
+}
+
+/**
+ * Insert or replace a record.
+ */
+export async function idbPut<T>(
+  storeName: IdbStoreName,
+  value: T,
+): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.put(value));
+}
+
+/**
+ * Delete a record by key.
+ */
+export async function idbDelete(
+  storeName: IdbStoreName,
+  key: IDBValidKey,
+): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,54 @@
+import type { LibrarySong } from '@/stores/types'
+
+/**
+ * Normalise text for matching: case, accents and punctuation are ignored,
+ * so "Don't Stop" matches "dont stop" and "Café" matches "cafe".
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Score how well a title matches a normalised query (lower is better).
+ * Returns null when it doesn't match at all.
+ */
+function scoreTitle(title: string, query: string): number | null {
+  const normalized = normalizeSearchText(title)
+  if (normalized === query) return 0
+  if (normalized.startsWith(query)) return 1
+  if (normalized.split(' ').some(word => word.startsWith(query))) return 2
+  if (normalized.includes(query)) return 3
+  return null
+}
+
+/**
+ * Find library songs whose title matches the query, best matches first.
+ * Exact titles beat prefixes, prefixes beat word starts, and those beat
+ * matches anywhere in the title. Ties are sorted alphabetically.
+ */
+export function searchLibrary(
+  songs: readonly LibrarySong[],
+  query: string,
+  limit = Infinity
+): LibrarySong[] {
+  const normalizedQuery = normalizeSearchText(query)
+  if (!normalizedQuery) return []
+
+  return songs
+    .map(song => ({ song, score: scoreTitle(song.title, normalizedQuery) }))
+    .filter(
+      (match): match is { song: LibrarySong; score: number } =>
+        match.score !== null
+    )
+    .sort(
+      (a, b) => a.score - b.score || a.song.title.localeCompare(b.song.title)
+    )
+    .slice(0, limit)
+    .map(match => match.song)
+}
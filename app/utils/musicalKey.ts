@@ -0,0 +1,223 @@
+export type NoteLetter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B'
+
+export type Accidental = 'natural' | 'sharp' | 'flat'
+
+export type KeyMode =
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+
+/**
+ * A song key the app understands, e.g. B flat minor is
+ * `{ tonic: 'B', accidental: 'flat', mode: 'minor' }`.
+ */
+export interface MusicalKey {
+  tonic: NoteLetter
+  accidental: Accidental
+  mode: KeyMode
+}
+
+const KEY_PATTERN =
+  /^([a-g])\s*(#|♯|b|♭|-?\s*sharp\b|-?\s*flat\b)?[\s-]*(.*?)[\s.]*$/i
+
+/** Ways of writing each mode, lowercased; "M" and "m" are handled apart */
+const MODE_NAMES: Record<string, KeyMode> = {
+  '': 'major',
+  maj: 'major',
+  major: 'major',
+  ionian: 'major',
+  min: 'minor',
+  minor: 'minor',
+  aeolian: 'minor',
+  dor: 'dorian',
+  dorian: 'dorian',
+  phr: 'phrygian',
+  phrygian: 'phrygian',
+  lyd: 'lydian',
+  lydian: 'lydian',
+  mix: 'mixolydian',
+  mixo: 'mixolydian',
+  mixolydian: 'mixolydian',
+  loc: 'locrian',
+  locrian: 'locrian'
+}
+
+function parseAccidental(text: string | undefined): Accidental {
+  if (!text) return 'natural'
+  const lower = text.toLowerCase()
+  if (lower === '#' || lower === '♯' || lower.endsWith('sharp')) return 'sharp'
+  return 'flat'
+}
+
+function parseMode(text: string, bareLowercaseLetter: boolean): KeyMode | null {
+  // "Cm" is C minor but "CM" is C major
+  if (text === 'm') return 'minor'
+  if (text === 'M') return 'major'
+  // A lowercase letter on its own is the usual shorthand for a minor key.
+  // With an accidental it's just lazy typing: "eb" is E flat, not E flat minor.
+  if (text === '' && bareLowercaseLetter) return 'minor'
+  return MODE_NAMES[text.toLowerCase()] ?? null
+}
+
+/**
+ * Read a key as people write it: "Bb", "Bbm", "B♭ minor", "B flat minor",
+ * "A#m", "F# maj", "D dorian"... A lowercase letter on its own is minor
+ * ("e" is E minor), but "eb" is E flat major. Returns null for anything else.
+ */
+export function parseKey(text: string | undefined): MusicalKey | null {
+  const match = text?.trim().match(KEY_PATTERN)
+  if (!match) return null
+  const [, letter = '', accidental, modeText = ''] = match
+  const mode = parseMode(
+    modeText,
+    !accidental && letter === letter.toLowerCase()
+  )
+  if (!mode) return null
+  return {
+    tonic: letter.toUpperCase() as NoteLetter,
+    accidental: parseAccidental(accidental),
+    mode
+  }
+}
+
+/**
+ * The usual way of writing a key: "Bb", "F#m", "D dorian".
+ */
+export function formatKey(key: MusicalKey): string {
+  const accidental =
+    key.accidental === 'sharp' ? '#' : key.accidental === 'flat' ? 'b' : ''
+  const mode =
+    key.mode === 'major' ? '' : key.mode === 'minor' ? 'm' : ` ${key.mode}`
+  return `${key.tonic}${accidental}${mode}`
+}
+
+/**
+ * Tidy a key into its usual spelling ("B flat minor" becomes "Bbm").
+ * Keys we can't read are left as typed, so nothing the user wrote is lost.
+ */
+export function normalizeKey(text: string | undefined): string | undefined {
+  const key = parseKey(text)
+  return key ? formatKey(key) : text
+}
+
+/**
+ * Whether a song's key can be read. A song without a key is fine.
+ */
+export function isValidKey(text: string | undefined): boolean {
+  return !text?.trim() || parseKey(text) !== null
+}
+
+/** How transposed keys are spelled: the usual way for each key, or all sharps or flats */
+export type KeySpelling = 'auto' | 'sharps' | 'flats'
+
+const LETTER_PITCHES: Record<NoteLetter, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11
+}
+
+/** Semitones from the relative major's tonic up to each mode's tonic */
+const MODE_OFFSETS: Record<KeyMode, number> = {
+  major: 0,
+  dorian: 2,
+  phrygian: 4,
+  lydian: 5,
+  mixolydian: 7,
+  minor: 9,
+  locrian: 11
+}
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B']
+
+/** Major keys usually written with flats (F, Bb, Eb, Ab, Db), by pitch class */
+const FLAT_MAJOR_PITCHES = new Set([1, 3, 5, 8, 10])
+
+function mod12(value: number): number {
+  return ((value % 12) + 12) % 12
+}
+
+/**
+ * The key's tonic as a pitch class, 0 (C) to 11 (B).
+ */
+export function getPitchClass(key: MusicalKey): number {
+  const shift =
+    key.accidental === 'sharp' ? 1 : key.accidental === 'flat' ? -1 : 0
+  return mod12(LETTER_PITCHES[key.tonic] + shift)
+}
+
+function spellKey(
+  pitchClass: number,
+  mode: KeyMode,
+  spelling: KeySpelling
+): MusicalKey {
+  // Keys share the spelling of their relative major, so Dm and Gm use flats
+  const useFlats =
+    spelling === 'flats' ||
+    (spelling === 'auto' &&
+      FLAT_MAJOR_PITCHES.has(mod12(pitchClass - MODE_OFFSETS[mode])))
+  const name = (useFlats ? FLAT_NAMES : SHARP_NAMES)[pitchClass] ?? 'C'
+  return {
+    tonic: name[0] as NoteLetter,
+    accidental: name[1] === '#' ? 'sharp' : name[1] === 'b' ? 'flat' : 'natural',
+    mode
+  }
+}
+
+/**
+ * Move a key up (positive) or down (negative) by semitones, keeping its mode.
+ */
+export function transposeKey(
+  key: MusicalKey,
+  semitones: number,
+  spelling: KeySpelling = 'auto'
+): MusicalKey {
+  return spellKey(mod12(getPitchClass(key) + semitones), key.mode, spelling)
+}
+
+/**
+ * Transpose a key as typed. Keys we can't read are left as they are.
+ */
+export function transposeKeyText(
+  text: string | undefined,
+  semitones: number,
+  spelling: KeySpelling = 'auto'
+): string | undefined {
+  const key = parseKey(text)
+  return key ? formatKey(transposeKey(key, semitones, spelling)) : text
+}
+
+/**
+ * The shortest move from one key's tonic to another's: -5 to +6 semitones,
+ * so going from E to D is down a tone rather than up ten semitones.
+ */
+export function getSemitonesBetween(from: MusicalKey, to: MusicalKey): number {
+  const distance = mod12(getPitchClass(to) - getPitchClass(from))
+  return distance > 6 ? distance - 12 : distance
+}
+
+/**
+ * A key as printed, with real flat and sharp signs: "B♭m", "F♯", "D dorian".
+ * With `lowercaseMinor`, minor keys drop the "m" and take a lowercase
+ * letter instead ("b♭"). Keys we can't read print as typed.
+ */
+export function formatKeySymbols(text: string, lowercaseMinor = false): string {
+  const key = parseKey(text)
+  if (!key) return text.trim()
+  const accidental =
+    key.accidental === 'sharp' ? '♯' : key.accidental === 'flat' ? '♭' : ''
+  if (key.mode === 'minor' && lowercaseMinor) {
+    return `${key.tonic.toLowerCase()}${accidental}`
+  }
+  const mode =
+    key.mode === 'major' ? '' : key.mode === 'minor' ? 'm' : ` ${key.mode}`
+  return `${key.tonic}${accidental}${mode}`
+}
@@ -0,0 +1,173 @@
+import {
+  CM_TO_PX,
+  MARGINS_CM,
+  TARGET_HEIGHT_CM,
+  TARGET_WIDTH_CM
+} from '@/constants'
+import { LIMITS } from '@/constants/limits'
+
+export type PaperSize =
+  | 'a4'
+  | 'a5'
+  | 'a3'
+  | 'letter'
+  | 'legal'
+  | 'tabloid'
+  | 'custom'
+
+export type PageOrientation = 'portrait' | 'landscape'
+
+export interface PageMargins {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+/**
+ * The user's print settings. Sizes are in centimeters.
+ */
+export interface PageSetup {
+  paperSize: PaperSize
+  orientation: PageOrientation
+  /** Portrait width of a custom paper size */
+  customWidthCm: number
+  /** Portrait height of a custom paper size */
+  customHeightCm: number
+  /** Margins of the page as printed (after orientation) */
+  margins: PageMargins
+}
+
+/**
+ * Page and printable box sizes worked out from a PageSetup.
+ */
+export interface PageDimensions {
+  widthCm: number
+  heightCm: number
+  widthPx: number
+  heightPx: number
+  margins: PageMargins
+  /** Printable width inside the margins */
+  boxWidthCm: number
+  /** Printable height inside the margins */
+  boxHeightCm: number
+}
+
+/** Standard paper sizes, portrait */
+export const PAPER_SIZES: Record<
+  Exclude<PaperSize, 'custom'>,
+  { label: string; widthCm: number; heightCm: number }
+> = {
+  a4: { label: 'A4', widthCm: TARGET_WIDTH_CM, heightCm: TARGET_HEIGHT_CM },
+  a5: { label: 'A5', widthCm: 14.8, heightCm: 21 },
+  a3: { label: 'A3', widthCm: 29.7, heightCm: 42 },
+  letter: { label: 'US Letter', widthCm: 21.59, heightCm: 27.94 },
+  legal: { label: 'US Legal', widthCm: 21.59, heightCm: 35.56 },
+  tabloid: { label: 'Tabloid', widthCm: 27.94, heightCm: 43.18 }
+}
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  paperSize: 'a4',
+  orientation: 'portrait',
+  customWidthCm: TARGET_WIDTH_CM,
+  customHeightCm: TARGET_HEIGHT_CM,
+  margins: { ...MARGINS_CM }
+}
+
+function clampNumber(
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback
+  // Keep to a tenth of a millimeter
+  return Math.round(Math.min(max, Math.max(min, value)) * 100) / 100
+}
+
+/**
+ * Work out the page and printable box sizes for a page setup.
+ */
+export function getPageDimensions(setup: PageSetup): PageDimensions {
+  const paper =
+    setup.paperSize === 'custom'
+      ? { widthCm: setup.customWidthCm, heightCm: setup.customHeightCm }
+      : PAPER_SIZES[setup.paperSize]
+
+  const isLandscape = setup.orientation === 'landscape'
+  const widthCm = isLandscape ? paper.heightCm : paper.widthCm
+  const heightCm = isLandscape ? paper.widthCm : paper.heightCm
+  const { margins } = setup
+
+  return {
+    widthCm,
+    heightCm,
+    widthPx: widthCm * CM_TO_PX,
+    heightPx: heightCm * CM_TO_PX,
+    margins,
+    boxWidthCm: Math.max(
+      LIMITS.MIN_PRINTABLE_SIZE_CM,
+      widthCm - margins.left - margins.right
+    ),
+    boxHeightCm: Math.max(
+      LIMITS.MIN_PRINTABLE_SIZE_CM,
+      heightCm - margins.top - margins.bottom
+    )
+  }
+}
+
+/**
+ * Sanitize a page setup, e.g. one read back from localStorage.
+ * Unknown values fall back to the defaults and sizes are clamped to the
+ * limits in LIMITS.
+ */
+export function sanitizePageSetup(value: unknown): PageSetup {
+  const input =
+    value && typeof value === 'object' ? (value as Partial<PageSetup>) : {}
+  const defaults = DEFAULT_PAGE_SETUP
+
+  const paperSize: PaperSize =
+    input.paperSize === 'custom' ||
+    (typeof input.paperSize === 'string' &&
+      Object.hasOwn(PAPER_SIZES, input.paperSize))
+      ? input.paperSize
+      : defaults.paperSize
+  const orientation: PageOrientation =
+    input.orientation === 'landscape' ? 'landscape' : 'portrait'
+
+  const sizeCm = (size: unknown, fallback: number) =>
+    clampNumber(
+      size,
+      LIMITS.MIN_PAPER_SIZE_CM,
+      LIMITS.MAX_PAPER_SIZE_CM,
+      fallback
+    )
+  const marginCm = (margin: unknown, fallback: number) =>
+    clampNumber(margin, 0, LIMITS.MAX_PAGE_MARGIN_CM, fallback)
+  const margins: Partial<PageMargins> =
+    input.margins && typeof input.margins === 'object' ? input.margins : {}
+
+  return {
+    paperSize,
+    orientation,
+    customWidthCm: sizeCm(input.customWidthCm, defaults.customWidthCm),
+    customHeightCm: sizeCm(input.customHeightCm, defaults.customHeightCm),
+    margins: {
+      top: marginCm(margins.top, defaults.margins.top),
+      right: marginCm(margins.right, defaults.margins.right),
+      bottom: marginCm(margins.bottom, defaults.margins.bottom),
+      left: marginCm(margins.left, defaults.margins.left)
+    }
+  }
+}
+
+/**
+ * Short description of a page setup, e.g. "US Letter landscape".
+ */
+export function describePageSetup(setup: PageSetup): string {
+  const name =
+    setup.paperSize === 'custom'
+      ? `${setup.customWidthCm} × ${setup.customHeightCm} cm`
+      : PAPER_SIZES[setup.paperSize].label
+  return `${name} ${setup.orientation}`
+}
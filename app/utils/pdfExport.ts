@@ -0,0 +1,612 @@
+import {
+  PDFDocument,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  rotateAndSkewTextDegreesAndTranslate,
+  setCharacterSpacing,
+  setFillingColor,
+  setFontAndSize,
+  setLineWidth,
+  setStrokingColor,
+  setTextRenderingMode,
+  showText,
+  type Color,
+  type PDFFont,
+  type PDFName,
+  type PDFPage
+} from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+import { BASE_FONT_SIZE_PX, CM_TO_PX, MIN_LINE_HEIGHT } from '@/constants'
+import {
+  getSetDividers,
+  getSongNumbers,
+  isEncoreMarkerSong,
+  isMarkerSong,
+  isRunningOrderItem
+} from '@/stores/encore'
+import { getIntactSegueIds } from '@/stores/segue'
+import { getSetCoreDuration, getSetDuration } from '@/stores/duration'
+import type { SetSchedule } from '@/stores/schedule'
+import type { SetItem, SetListMetadata, Song } from '@/stores/types'
+import type { BundledFonts } from './bundledFonts'
+import { formatKeySymbols } from './musicalKey'
+import {
+  DEFAULT_PAGE_SETUP,
+  getPageDimensions,
+  type PageDimensions
+} from './pageSetup'
+import {
+  STANDARD_PRINT_PROFILE,
+  formatSongDetails,
+  resolvePrintOptions,
+  type PrintProfile,
+  type ResolvedPrintOptions
+} from './printProfiles'
+import { formatClockTime, formatDuration, formatLongDate } from './utils'
+
+/** One page of the PDF, matching one page of the print preview */
+export interface PdfSetPage {
+  set: SetItem
+  /** Name as shown in the editor, e.g. from `getSetDisplayName` */
+  name: string
+  /** Font size and line height the preview chose for the songs */
+  sizing?: { fontSizePx: number; lineHeight: number }
+  schedule?: SetSchedule | null
+  /** Which song details and header parts to print; standard when left out */
+  profile?: PrintProfile
+}
+
+export interface PdfExportOptions {
+  metadata: SetListMetadata
+  pages: PdfSetPage[]
+  fonts: BundledFonts
+  /** Paper size and margins; A4 with 1cm margins when left out */
+  paper?: PageDimensions
+  uppercase?: boolean
+  showNumbers?: boolean
+  showDurations?: boolean
+  showSongTimes?: boolean
+  showNotes?: boolean
+  lowercaseMinor?: boolean
+  /** Running time of the whole show, printed next to each set's time */
+  totalDuration?: number
+  /** Notes per song id (see `getSongNotes`), for pages that print them */
+  songNotes?: Record<string, string>
+}
+
+/** CSS pixels are 1/96in, PDF points 1/72in */
+const PX_TO_PT = 72 / 96
+
+/** Page geometry in CSS pixels */
+interface PageBox {
+  pageHeight: number
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+function getPageBox(paper: PageDimensions): PageBox {
+  return {
+    pageHeight: paper.heightPx,
+    left: paper.margins.left * CM_TO_PX,
+    top: paper.margins.top * CM_TO_PX,
+    width: paper.boxWidthCm * CM_TO_PX,
+    height: paper.boxHeightCm * CM_TO_PX
+  }
+}
+
+/** The page's own line-height, as in main.css */
+const TEXT_LINE_HEIGHT = 1.5
+
+/** Ornaments NotoSans has no glyphs for (♩ to ♯) */
+const MUSIC_SYMBOLS = /([♩-♯]+)/
+
+const BLACK = rgb(0, 0, 0)
+const WHITE = rgb(1, 1, 1)
+const GREY_DARK = hex('#444444')
+const GREY_MID = hex('#777777')
+const GREY = hex('#999999')
+const GREY_LIGHT = hex('#cccccc')
+const ACCENT = hex('#6c4dff')
+
+function hex(value: string): Color {
+  const n = parseInt(value.slice(1), 16)
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255)
+}
+
+interface TextStyle {
+  size: number
+  weight?: number
+  color?: Color
+  italic?: boolean
+  /** Extra space after each character, in px */
+  letterSpacing?: number
+}
+
+/**
+ * Draws text in CSS pixel coordinates (top-left origin), switching to the
+ * music font for symbols the sans font lacks.
+ */
+function createPageWriter(
+  page: PDFPage,
+  pageHeight: number,
+  sans: PDFFont,
+  music: PDFFont
+) {
+  const fontKeys = new Map<PDFFont, PDFName>()
+
+  function runs(text: string): { text: string; font: PDFFont }[] {
+    return text
+      .split(MUSIC_SYMBOLS)
+      .filter(Boolean)
+      .map(part => ({
+        text: part,
+        font: MUSIC_SYMBOLS.test(part) ? music : sans
+      }))
+  }
+
+  function fontKey(font: PDFFont): PDFName {
+    let key = fontKeys.get(font)
+    if (!key) {
+      key = page.node.newFontDictionary(font.name, font.ref)
+      fontKeys.set(font, key)
+    }
+    return key
+  }
+
+  function width(text: string, style: TextStyle): number {
+    const spacing = (style.letterSpacing ?? 0) * [...text].length
+    return (
+      runs(text).reduce(
+        (sum, run) => sum + run.font.widthOfTextAtSize(run.text, style.size),
+        0
+      ) + spacing
+    )
+  }
+
+  /**
+   * Baseline for text of the given size centred in a line box, the way CSS
+   * places it (half the leading above, half below).
+   */
+  function baseline(lineTop: number, lineBoxHeight: number, size: number): number {
+    const ascent = sans.heightAtSize(size, { descender: false })
+    const height = sans.heightAtSize(size)
+    return lineTop + (lineBoxHeight - height) / 2 + ascent
+  }
+
+  /** Draw text with its baseline at `y`, returning the x after it */
+  function text(value: string, x: number, y: number, style: TextStyle): number {
+    const color = style.color ?? BLACK
+    const weight = style.weight ?? 400
+    // Only the regular instance of the variable font embeds, so heavier
+    // weights are drawn with an outline of the same colour
+    const strokePx = weight > 400 ? ((weight - 400) / 100) * 0.015 * style.size : 0
+
+    let cursor = x
+    for (const run of runs(value)) {
+      page.pushOperators(
+        pushGraphicsState(),
+        beginText(),
+        setFontAndSize(fontKey(run.font), style.size * PX_TO_PT),
+        setFillingColor(color),
+        setStrokingColor(color),
+        setLineWidth(strokePx * PX_TO_PT),
+        setTextRenderingMode(
+          strokePx > 0 ? TextRenderingMode.FillAndOutline : TextRenderingMode.Fill
+        ),
+        setCharacterSpacing((style.letterSpacing ?? 0) * PX_TO_PT),
+        rotateAndSkewTextDegreesAndTranslate(
+          0,
+          0,
+          style.italic ? 12 : 0,
+          cursor * PX_TO_PT,
+          (pageHeight - y) * PX_TO_PT
+        ),
+        showText(run.font.encodeText(run.text)),
+        endText(),
+        popGraphicsState()
+      )
+      cursor += width(run.text, style)
+    }
+    return cursor
+  }
+
+  /** Draw a sequence of differently styled pieces, right-aligned at `right` */
+  function textRight(
+    pieces: { text: string; style: TextStyle }[],
+    right: number,
+    y: number
+  ): void {
+    const total = pieces.reduce((sum, p) => sum + width(p.text, p.style), 0)
+    let x = right - total
+    for (const piece of pieces) {
+      x = text(piece.text, x, y, piece.style)
+    }
+  }
+
+  function rule(x: number, y: number, ruleWidth: number, thickness: number): void {
+    page.drawRectangle({
+      x: x * PX_TO_PT,
+      y: (pageHeight - y - thickness) * PX_TO_PT,
+      width: ruleWidth * PX_TO_PT,
+      height: thickness * PX_TO_PT,
+      color: BLACK
+    })
+  }
+
+  function ellipse(
+    centerX: number,
+    centerY: number,
+    ellipseWidth: number,
+    height: number,
+    color: Color,
+    opacity = 1
+  ): void {
+    page.drawEllipse({
+      x: centerX * PX_TO_PT,
+      y: (pageHeight - centerY) * PX_TO_PT,
+      xScale: (ellipseWidth / 2) * PX_TO_PT,
+      yScale: (height / 2) * PX_TO_PT,
+      color,
+      opacity
+    })
+  }
+
+  /**
+   * A right-pointing arrow, drawn rather than typed since neither bundled
+   * font has a glyph for it
+   */
+  function arrow(
+    x: number,
+    centerY: number,
+    arrowWidth: number,
+    thickness: number,
+    color: Color
+  ): void {
+    const head = arrowWidth * 0.35 * PX_TO_PT
+    const tip = {
+      x: (x + arrowWidth) * PX_TO_PT,
+      y: (pageHeight - centerY) * PX_TO_PT
+    }
+    const line = (start: { x: number; y: number }) =>
+      page.drawLine({ start, end: tip, thickness: thickness * PX_TO_PT, color })
+    line({ x: x * PX_TO_PT, y: tip.y })
+    line({ x: tip.x - head, y: tip.y + head })
+    line({ x: tip.x - head, y: tip.y - head })
+  }
+
+  return { width, baseline, text, textRight, rule, ellipse, arrow }
+}
+
+type PageWriter = ReturnType<typeof createPageWriter>
+
+/** The export's options as the page's print profile applies them */
+function getPrintOptions(
+  page: PdfSetPage,
+  options: PdfExportOptions
+): ResolvedPrintOptions {
+  return resolvePrintOptions(page.profile ?? STANDARD_PRINT_PROFILE, {
+    uppercase: options.uppercase ?? false,
+    showNumbers: options.showNumbers ?? false,
+    showDurations: options.showDurations ?? false,
+    showSongTimes: options.showSongTimes ?? false,
+    showNotes: options.showNotes ?? false,
+    lowercaseMinor: options.lowercaseMinor ?? false
+  })
+}
+
+/**
+ * Draw the metadata header and return its height including the rule and
+ * the gap below it.
+ */
+function drawHeader(
+  writer: PageWriter,
+  box: PageBox,
+  page: PdfSetPage,
+  options: PdfExportOptions
+): number {
+  const { metadata } = options
+  const printOptions = getPrintOptions(page, options)
+  const { left, top } = box
+  const right = left + box.width
+
+  // Left column: title and details
+  let leftHeight = 0
+  if (
+    printOptions.showMetadata &&
+    (metadata.setListName || metadata.venue || metadata.date || metadata.actName)
+  ) {
+    const titleStyle: TextStyle = { size: 24, weight: 700, letterSpacing: 3 }
+    let y = top
+    if (metadata.setListName) {
+      const lineBox = titleStyle.size * TEXT_LINE_HEIGHT
+      writer.text(
+        metadata.setListName.toUpperCase(),
+        left,
+        writer.baseline(y, lineBox, titleStyle.size),
+        titleStyle
+      )
+      y += lineBox + 8
+    }
+    const detailStyle: TextStyle = { size: 14, weight: 500, color: GREY_DARK }
+    const details = [metadata.actName, metadata.venue, formatLongDate(metadata.date)]
+      .filter(Boolean)
+    const lineBox = detailStyle.size * TEXT_LINE_HEIGHT
+    let x = left
+    for (const detail of details) {
+      x = writer.text(detail, x, writer.baseline(y, lineBox, detailStyle.size), detailStyle) + 24
+    }
+    leftHeight = y + lineBox - top
+  }
+
+  // Right column: a blank line, set name with start time, then durations
+  let y = top + BASE_FONT_SIZE_PX * TEXT_LINE_HEIGHT + 4
+  const nameStyle: TextStyle = { size: 20, weight: 700 }
+  const nameBox = nameStyle.size * TEXT_LINE_HEIGHT
+  const startTime = page.schedule ? formatClockTime(page.schedule.startTime) : ''
+  writer.textRight(
+    [
+      { text: page.name, style: nameStyle },
+      ...(startTime
+        ? [{ text: ` ${startTime}`, style: { ...nameStyle, weight: 400, color: GREY_DARK } }]
+        : [])
+    ],
+    right,
+    writer.baseline(y, nameBox, nameStyle.size)
+  )
+  y += nameBox
+
+  const setDuration = getSetDuration(page.set)
+  if (printOptions.showDurations && setDuration > 0) {
+    const coreDuration = getSetCoreDuration(page.set)
+    const totalDuration = options.totalDuration ?? 0
+    const style: TextStyle = { size: 14, color: GREY_DARK }
+    const box = style.size * TEXT_LINE_HEIGHT
+    y += 4
+    writer.textRight(
+      [
+        { text: formatDuration(coreDuration), style },
+        ...(coreDuration < setDuration
+          ? [{ text: ` (max ${formatDuration(setDuration)})`, style: { ...style, color: GREY_MID } }]
+          : []),
+        ...(totalDuration > setDuration
+          ? [{ text: ` / show ${formatDuration(totalDuration)}`, style: { ...style, color: GREY_MID } }]
+          : [])
+      ],
+      right,
+      writer.baseline(y, box, style.size)
+    )
+    y += box
+  }
+
+  const contentHeight = Math.max(leftHeight, y - top)
+  // padding-bottom 1rem, 2px rule, margin-bottom 1.5rem
+  writer.rule(left, top + contentHeight + 16, box.width, 2)
+  return contentHeight + 16 + 2 + 24
+}
+
+interface SongRow {
+  song: Song
+  /** Undefined for running-order items, which aren't numbered */
+  number: number | undefined
+  isItem: boolean
+  time: string
+  title: string
+  /** Key as printed, empty when the profile leaves it out */
+  key: string
+  /** Small print after the title, e.g. "120 bpm" */
+  details: string
+  /** Runs straight into the next song */
+  segue: boolean
+  isEncore: boolean
+  /** Labels of the dividers above this song, e.g. "Encore 2" or "Acoustic" */
+  dividers: string[]
+}
+
+function getSongRows(page: PdfSetPage, options: PdfExportOptions): SongRow[] {
+  const { set, schedule } = page
+  const printOptions = getPrintOptions(page, options)
+  const markerIndex = set.songs.findIndex(isEncoreMarkerSong)
+  const dividers = getSetDividers(set)
+  const segueIds = getIntactSegueIds(set)
+  const songNumbers = getSongNumbers(set.songs)
+
+  return set.songs
+    .filter(song => !isMarkerSong(song))
+    .map(song => {
+      const startTime = schedule?.songStartTimes[song.id]
+      // Items keep their own case and have no key, as in the preview
+      const isItem = isRunningOrderItem(song)
+      return {
+        song,
+        number: songNumbers.get(song.id),
+        isItem,
+        time:
+          printOptions.showSongTimes && startTime !== undefined
+            ? formatClockTime(startTime)
+            : '',
+        title:
+          printOptions.uppercase && !isItem ? song.title.toUpperCase() : song.title,
+        key:
+          printOptions.fields.key && !isItem && song.key
+            ? formatKeySymbols(song.key, printOptions.lowercaseMinor)
+            : '',
+        details: formatSongDetails(
+          song,
+          printOptions.fields,
+          options.songNotes?.[song.id]
+        ),
+        segue: segueIds.has(song.id),
+        isEncore: markerIndex !== -1 && set.songs.indexOf(song) > markerIndex,
+        dividers: dividers.get(song.id) ?? []
+      }
+    })
+}
+
+/** Width of the segue arrow, in ems */
+const SEGUE_ARROW_WIDTH = 0.8
+
+/** Width of a song row at the given font size, prefixes included */
+function rowWidth(
+  writer: PageWriter,
+  row: SongRow,
+  fontSize: number,
+  showNumbers: boolean
+): number {
+  const small: TextStyle = { size: fontSize / 2 }
+  const gap = fontSize * 0.25
+  let width = 0
+  if (showNumbers) width += writer.width(String(row.number ?? ''), small) + gap
+  if (row.time) width += writer.width(row.time, small) + gap
+  const { song } = row
+  const label = (song.isOptional ? '[' : '') + row.title + (song.isOptional ? ']' : '')
+  width += writer.width(label, { size: fontSize })
+  if (row.key) width += writer.width(` (${row.key})`, { size: fontSize })
+  if (row.segue) width += gap + fontSize * SEGUE_ARROW_WIDTH
+  if (row.details) width += gap + writer.width(row.details, small)
+  return width
+}
+
+function drawSongs(
+  writer: PageWriter,
+  box: PageBox,
+  page: PdfSetPage,
+  options: PdfExportOptions,
+  top: number
+): void {
+  const rows = getSongRows(page, options)
+  if (rows.length === 0) return
+  const { showNumbers } = getPrintOptions(page, options)
+
+  const { left } = box
+  const dividerCount = rows.reduce((sum, row) => sum + row.dividers.length, 0)
+  // Same allowance as the preview: the box below the header, less the
+  // 1em spacer, and 0.5rem above and below each divider
+  const availableHeight = box.top + box.height - top - 16 - dividerCount * 16
+
+  let fontSize = page.sizing?.fontSizePx ?? BASE_FONT_SIZE_PX
+  let lineHeight = page.sizing?.lineHeight ?? MIN_LINE_HEIGHT
+
+  // The preview measured with the browser's fonts; make sure the embedded
+  // font still fits the box
+  const widest = Math.max(...rows.map(row => rowWidth(writer, row, fontSize, showNumbers)))
+  if (widest > box.width) fontSize *= box.width / widest
+  if (fontSize * lineHeight * rows.length > availableHeight) {
+    lineHeight = availableHeight / (fontSize * rows.length)
+  }
+
+  const rowHeight = fontSize * lineHeight
+  const small = fontSize / 2
+  const gap = fontSize * 0.25
+  let y = top
+
+  for (const row of rows) {
+    for (const divider of row.dividers) {
+      y += 8
+      const labelStyle: TextStyle = { size: 12, weight: 700, color: GREY_DARK, letterSpacing: 12 * 0.08 }
+      const label = divider.toUpperCase()
+      const labelWidth = writer.width(label, labelStyle)
+      const labelBox = labelStyle.size * TEXT_LINE_HEIGHT
+      const labelTop = y - 8
+      const centerX = left + box.width / 2
+      const centerY = labelTop + labelBox / 2
+      // Rounded purple bars either side of the label (200px borders with a
+      // 100% border-radius in the preview)
+      const innerWidth = labelWidth + 64
+      writer.ellipse(centerX, centerY, innerWidth + 400, labelBox, ACCENT, 0.5)
+      writer.ellipse(centerX, centerY, innerWidth, labelBox, WHITE)
+      writer.text(
+        label,
+        centerX - labelWidth / 2,
+        writer.baseline(labelTop, labelBox, labelStyle.size),
+        labelStyle
+      )
+      y += 8
+    }
+
+    const { song } = row
+    const color = row.isEncore
+      ? GREY_LIGHT
+      : song.isOptional
+        ? GREY
+        : row.isItem
+          ? GREY_MID
+          : BLACK
+    const italic = row.isEncore || row.isItem
+    const prefixStyle: TextStyle = { size: small, color: GREY }
+    // Numbers and times are vertically centred on the row
+    const prefixBaseline = writer.baseline(y, rowHeight, small)
+    let x = left
+
+    if (showNumbers) {
+      x = writer.text(String(row.number ?? ''), x, prefixBaseline, prefixStyle) + gap
+    }
+    if (row.time) {
+      x = writer.text(row.time, x, prefixBaseline, prefixStyle) + gap
+    }
+
+    const baseline = writer.baseline(y, rowHeight, fontSize)
+    const labelStyle: TextStyle = {
+      size: fontSize,
+      weight: row.isItem ? 400 : 600,
+      color,
+      italic
+    }
+    if (song.isOptional) x = writer.text('[', x, baseline, labelStyle)
+    x = writer.text(row.title, x, baseline, labelStyle)
+    if (row.key) {
+      x = writer.text(` (${row.key})`, x, baseline, { ...labelStyle, weight: 400 })
+    }
+    if (song.isOptional) x = writer.text(']', x, baseline, labelStyle)
+    if (row.segue) {
+      const arrowWidth = fontSize * SEGUE_ARROW_WIDTH
+      // Centred on the lowercase letters, like the → glyph
+      const centerY = baseline - fontSize * 0.27
+      const thickness = Math.max(1, fontSize / 14)
+      writer.arrow(x + gap, centerY, arrowWidth, thickness, color)
+      x += gap + arrowWidth
+    }
+    if (row.details) {
+      writer.text(row.details, x + gap, prefixBaseline, { size: small, color: GREY_MID })
+    }
+
+    y += rowHeight
+  }
+}
+
+/**
+ * Build a PDF of the set list, one page per set, laid out like the print
+ * preview and using the font sizes the preview worked out. The bundled Noto
+ * fonts are embedded (subset), so the file looks the same everywhere.
+ */
+export async function createSetListPdf(
+  options: PdfExportOptions
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.registerFontkit(fontkit)
+  doc.setTitle(options.metadata.setListName || 'Set List')
+  if (options.metadata.actName) doc.setAuthor(options.metadata.actName)
+
+  const sans = await doc.embedFont(options.fonts.sans, { subset: true })
+  const music = await doc.embedFont(options.fonts.music, { subset: true })
+
+  const paper = options.paper ?? getPageDimensions(DEFAULT_PAGE_SETUP)
+  const box = getPageBox(paper)
+
+  for (const page of options.pages) {
+    const pdfPage = doc.addPage([
+      paper.widthPx * PX_TO_PT,
+      paper.heightPx * PX_TO_PT
+    ])
+    const writer = createPageWriter(pdfPage, paper.heightPx, sans, music)
+    const headerHeight = drawHeader(writer, box, page, options)
+    drawSongs(writer, box, page, options, box.top + headerHeight)
+  }
+
+  return doc.save()
+}
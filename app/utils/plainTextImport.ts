@@ -0,0 +1,115 @@
+import type { Song } from '@/stores/types'
+import { createEncoreMarker } from '@/stores/encore'
+
+export interface ImportedSet {
+  name?: string
+  songs: Song[]
+}
+
+export interface PlainTextImport {
+  sets: ImportedSet[]
+}
+
+/** "[12/03/2026, 18:22] Dave: " prefixes from copied WhatsApp messages */
+const CHAT_PREFIX =
+  /^\[\d{1,2}[/.]\d{1,2}[/.]\d{2,4},?\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s?[ap]m)?\]\s*[^:]{1,40}:\s*/i
+
+/** List bullets and numbering: "1.", "2)", "3 -", "-", "*", "•" */
+const LIST_PREFIX = /^(?:\d+\s*[.):]\s*|\d+\s+[-–—]\s+|[-–—*•·]\s+)/
+
+/** "Set 2", "SET TWO:", "Part 1 - Acoustic" */
+const SET_HEADING =
+  /^(?:set|part)\s*(?:\d+|one|two|three|four|five|six)\b\s*(?:[:.\-–—]\s*(.*))?$/i
+
+/** A line that is only the word "Encore", maybe numbered or decorated */
+const ENCORE_LINE = /^[^a-z0-9]*encores?(?:\s*\d+)?[^a-z0-9]*$/i
+
+const KEY = '[A-G](?:#|b|♯|♭)?(?:m|min|maj|minor|major)?'
+
+/** Trailing key in brackets, "Song (E)" or "Song [F#m]" */
+const BRACKETED_KEY = new RegExp(`^(.*?)\\s*[([](${KEY})[)\\]]$`)
+
+/** Trailing key after a spaced dash, "Song - Am" */
+const DASHED_KEY = new RegExp(`^(.*?)\\s+[-–—]\\s+(${KEY})$`)
+
+/**
+ * Strip chat prefixes, list numbering and WhatsApp *bold* / _italic_ markers.
+ */
+function cleanLine(line: string): string {
+  return line
+    .trim()
+    .replace(CHAT_PREFIX, '')
+    .replace(/^[*_~]+|[*_~]+$/g, '')
+    .trim()
+    .replace(LIST_PREFIX, '')
+    .trim()
+}
+
+/**
+ * Split a song line into title and key.
+ */
+export function parseSongLine(line: string): { title: string; key?: string } {
+  const match = line.match(BRACKETED_KEY) ?? line.match(DASHED_KEY)
+  const title = match?.[1]?.trim()
+  if (match && title) {
+    return { title, key: match[2] }
+  }
+  return { title: line }
+}
+
+/**
+ * Parse a set list typed as plain text, one song per line.
+ *
+ * Sets are split by "Set 2" style headings, or by blank lines when the text
+ * has no headings at all. A line reading "Encore" (or "Encore 2") places an encore marker.
+ * The result can be passed to `loadStore` as the new sets.
+ */
+export function parsePlainTextSetList(text: string): PlainTextImport {
+  const lines = text.split(/\r\n|\r|\n/).map(cleanLine)
+  const hasHeadings = lines.some(line => SET_HEADING.test(line))
+
+  const sets: ImportedSet[] = [{ songs: [] }]
+  let current = sets[0] as ImportedSet
+
+  function startSet(name?: string): void {
+    // Reuse the current set while it's still empty (e.g. a heading after a blank line)
+    if (current.songs.length > 0) {
+      current = { songs: [] }
+      sets.push(current)
+    }
+    if (name !== undefined) current.name = name || undefined
+  }
+
+  lines.forEach(line => {
+    if (!line) {
+      if (!hasHeadings) startSet()
+      return
+    }
+
+    const heading = line.match(SET_HEADING)
+    if (heading) {
+      startSet(heading[1]?.trim() ?? '')
+      return
+    }
+
+    if (ENCORE_LINE.test(line)) {
+      // Each encore line starts another encore, e.g. for a double encore
+      if (!current.songs[current.songs.length - 1]?.isEncoreMarker) {
+        current.songs.push(createEncoreMarker())
+      }
+      return
+    }
+
+    // Skip separators like "-----" with nothing to name a song
+    if (!/[\p{L}\p{N}]/u.test(line)) return
+
+    const { title, key } = parseSongLine(line)
+    current.songs.push({ id: crypto.randomUUID(), title, key })
+  })
+
+  return {
+    sets: sets.filter(set =>
+      set.songs.some(song => !song.isEncoreMarker)
+    )
+  }
+}
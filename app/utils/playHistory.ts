@@ -0,0 +1,92 @@
+import type { GigLogEntry, PlayedSong } from '@/stores/types'
+import { normalizeSearchText } from './librarySearch'
+
+export interface LastPlayed {
+  /** Date of the most recent gig that included the song ("YYYY-MM-DD") */
+  date: string
+  /** How many gigs back that was: 1 is the latest gig in the log */
+  gigsAgo: number
+  /** Date the song was last played at the given venue, if ever */
+  venueDate?: string
+}
+
+/**
+ * Whether a played song is the same song. Library ids win; songs from older
+ * set lists without one are matched on their title.
+ */
+function isSameSong(played: PlayedSong, song: PlayedSong): boolean {
+  if (played.libraryId && song.libraryId) {
+    return played.libraryId === song.libraryId
+  }
+  return normalizeSearchText(played.title) === normalizeSearchText(song.title)
+}
+
+/**
+ * Sort gigs newest first. ISO dates compare correctly as strings.
+ */
+export function sortGigsByDate(gigs: readonly GigLogEntry[]): GigLogEntry[] {
+  return [...gigs].sort((a, b) => b.date.localeCompare(a.date))
+}
+
+/**
+ * Find when a song was last played, searching gigs newest first.
+ *
+ * @param gigs - Gig log entries, sorted newest first
+ * @param song - The song to look for
+ * @param venue - Optional venue to also report the last play at
+ * @returns null when the song isn't in the log
+ */
+export function findLastPlayed(
+  gigs: readonly GigLogEntry[],
+  song: PlayedSong,
+  venue?: string
+): LastPlayed | null {
+  const index = gigs.findIndex(gig =>
+    gig.songs.some(played => isSameSong(played, song))
+  )
+  const gig = gigs[index]
+  if (!gig) return null
+
+  const normalizedVenue = venue ? normalizeSearchText(venue) : ''
+  const venueGig = normalizedVenue
+    ? gigs.find(
+        candidate =>
+          normalizeSearchText(candidate.venue) === normalizedVenue &&
+          candidate.songs.some(played => isSameSong(played, song))
+      )
+    : undefined
+
+  return {
+    date: gig.date,
+    gigsAgo: index + 1,
+    venueDate: venueGig?.date
+  }
+}
+
+function formatGigDate(date: string): string {
+  // Parse as a local date so the day doesn't shift with the time zone
+  const [year, month, day] = date.split('-').map(Number)
+  if (!year || !month || !day) return date
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  })
+}
+
+/**
+ * Describe a last-played result, e.g. "Last played 3 gigs ago (12 Mar 2026)".
+ */
+export function formatLastPlayed(lastPlayed: LastPlayed | null): string {
+  if (!lastPlayed) return 'Not played yet'
+
+  const when =
+    lastPlayed.gigsAgo === 1
+      ? 'at the latest gig'
+      : `${lastPlayed.gigsAgo} gigs ago`
+  let text = `Last played ${when} (${formatGigDate(lastPlayed.date)})`
+  if (lastPlayed.venueDate) {
+    text += `, here ${formatGigDate(lastPlayed.venueDate)}`
+  }
+  return text
+}
@@ -0,0 +1,275 @@
+import { LIMITS } from '@/constants/limits'
+import type { SetItem, Song } from '@/stores/types'
+import { formatSongDuration } from './utils'
+
+export type PrintProfileId =
+  | 'standard'
+  | 'stage'
+  | 'drummer'
+  | 'sound'
+  | 'lighting'
+
+/**
+ * Song details a profile prints. The key goes in brackets after the title
+ * as usual; the rest follow it in small print.
+ */
+export interface PrintProfileFields {
+  key: boolean
+  tempo: boolean
+  duration: boolean
+  notes: boolean
+  cue: boolean
+}
+
+/**
+ * One way of printing the set list, e.g. for the stage or the sound desk.
+ */
+export interface PrintProfile {
+  id: PrintProfileId
+  label: string
+  description: string
+  fields: Omit<PrintProfileFields, 'notes'>
+  /** Song notes: follow the preview's Song notes option, or always/never */
+  notes: 'preview' | 'always' | 'never'
+  /** Set list name, act, venue and date at the top of the page */
+  showMetadata: boolean
+  /** Set running times: follow the preview's Durations option, or always/never */
+  durations: 'preview' | 'always' | 'never'
+  /** Whether the preview's song numbers and start times apply */
+  allowNumbers: boolean
+  /** Titles in capitals whatever the preview's option says */
+  forceUppercase: boolean
+}
+
+/** Options from the preview controls */
+export interface PreviewPrintOptions {
+  uppercase: boolean
+  showNumbers: boolean
+  showDurations: boolean
+  showSongTimes: boolean
+  showNotes: boolean
+  /** Minor keys as a lowercase letter ("b♭") rather than with an "m" */
+  lowercaseMinor: boolean
+}
+
+/** What a page actually shows once the profile is applied */
+export interface ResolvedPrintOptions extends PreviewPrintOptions {
+  showMetadata: boolean
+  fields: PrintProfileFields
+}
+
+const NO_FIELDS: PrintProfile['fields'] = {
+  key: false,
+  tempo: false,
+  duration: false,
+  cue: false
+}
+
+export const PRINT_PROFILES: readonly PrintProfile[] = [
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Titles and keys, with the options chosen above',
+    fields: { ...NO_FIELDS, key: true },
+    notes: 'preview',
+    showMetadata: true,
+    durations: 'preview',
+    allowNumbers: true,
+    forceUppercase: false
+  },
+  {
+    id: 'stage',
+    label: 'Stage',
+    description: 'Titles only, as big as they fit, for the floor',
+    fields: NO_FIELDS,
+    notes: 'never',
+    showMetadata: false,
+    durations: 'never',
+    allowNumbers: false,
+    forceUppercase: true
+  },
+  {
+    id: 'drummer',
+    label: 'Drummer',
+    description: 'Titles with tempos',
+    fields: { ...NO_FIELDS, tempo: true },
+    notes: 'preview',
+    showMetadata: false,
+    durations: 'never',
+    allowNumbers: true,
+    forceUppercase: false
+  },
+  {
+    id: 'sound',
+    label: 'Sound desk',
+    description: 'Keys, song lengths and notes, with set times',
+    fields: { ...NO_FIELDS, key: true, duration: true },
+    notes: 'always',
+    showMetadata: true,
+    durations: 'always',
+    allowNumbers: true,
+    forceUppercase: false
+  },
+  {
+    id: 'lighting',
+    label: 'Lighting',
+    description: 'Titles with lighting cues',
+    fields: { ...NO_FIELDS, cue: true },
+    notes: 'preview',
+    showMetadata: true,
+    durations: 'preview',
+    allowNumbers: true,
+    forceUppercase: false
+  }
+]
+
+export const STANDARD_PRINT_PROFILE = PRINT_PROFILES[0] as PrintProfile
+
+export function getPrintProfile(id: PrintProfileId): PrintProfile {
+  return PRINT_PROFILES.find(profile => profile.id === id) ?? STANDARD_PRINT_PROFILE
+}
+
+/**
+ * Combine a profile with the preview's options.
+ */
+export function resolvePrintOptions(
+  profile: PrintProfile,
+  options: PreviewPrintOptions
+): ResolvedPrintOptions {
+  const showNotes =
+    profile.notes === 'always' ||
+    (profile.notes === 'preview' && options.showNotes)
+  return {
+    uppercase: profile.forceUppercase || options.uppercase,
+    showNumbers: profile.allowNumbers && options.showNumbers,
+    showSongTimes: profile.allowNumbers && options.showSongTimes,
+    showDurations:
+      profile.durations === 'always' ||
+      (profile.durations === 'preview' && options.showDurations),
+    showNotes,
+    lowercaseMinor: options.lowercaseMinor,
+    showMetadata: profile.showMetadata,
+    fields: { ...profile.fields, notes: showNotes }
+  }
+}
+
+/**
+ * The small print after a song's title, e.g. "120 bpm · 3:45".
+ *
+ * @param notes - Notes for the song, e.g. from `getSongNotes`
+ */
+export function formatSongDetails(
+  song: Song,
+  fields: PrintProfileFields,
+  notes?: string
+): string {
+  const details: string[] = []
+  if (fields.tempo && song.tempo) details.push(`${song.tempo} bpm`)
+  if (fields.duration && song.duration) {
+    details.push(formatSongDuration(song.duration))
+  }
+  if (fields.cue && song.cue) details.push(song.cue)
+  if (fields.notes && notes) details.push(notes)
+  return details.join(' · ')
+}
+
+/**
+ * Notes printed for a song: its own performance notes, or else the usual
+ * notes from its song library entry.
+ */
+export function getSongNotes(
+  song: Song,
+  libraryNotes?: string
+): string | undefined {
+  return song.notes || libraryNotes || undefined
+}
+
+/** Number of copies to print of each profile */
+export type PrintCopies = Record<PrintProfileId, number>
+
+export const DEFAULT_PRINT_COPIES: PrintCopies = {
+  standard: 1,
+  stage: 0,
+  drummer: 0,
+  sound: 0,
+  lighting: 0
+}
+
+/**
+ * Sanitize copy counts, e.g. read back from localStorage. Counts are whole
+ * numbers up to LIMITS.MAX_PRINT_COPIES; asking for nothing at all prints
+ * one standard copy.
+ */
+export function sanitizePrintCopies(value: unknown): PrintCopies {
+  const input =
+    value && typeof value === 'object' ? (value as Partial<PrintCopies>) : {}
+
+  const copies = { ...DEFAULT_PRINT_COPIES }
+  for (const { id } of PRINT_PROFILES) {
+    const count = input[id]
+    if (typeof count === 'number' && Number.isFinite(count)) {
+      copies[id] = Math.min(LIMITS.MAX_PRINT_COPIES, Math.max(0, Math.round(count)))
+    }
+  }
+
+  if (PRINT_PROFILES.every(({ id }) => copies[id] === 0)) {
+    return { ...DEFAULT_PRINT_COPIES }
+  }
+  return copies
+}
+
+/**
+ * Short description of the copies, e.g. "Stage ×4, Drummer".
+ */
+export function describePrintCopies(copies: PrintCopies): string {
+  return PRINT_PROFILES.filter(({ id }) => copies[id] > 0)
+    .map(({ id, label }) => (copies[id] > 1 ? `${label} ×${copies[id]}` : label))
+    .join(', ')
+}
+
+/** One printed page: a set, in a profile, as one of its copies */
+export interface PrintJobPage {
+  /** Unique within the job */
+  key: string
+  profile: PrintProfile
+  set: SetItem
+  /** Position among the printed sets, for the "Set N" fallback name */
+  setIndex: number
+  /** 1-based copy number */
+  copy: number
+  copies: number
+}
+
+/**
+ * Key for the sizing of a set in a profile; every copy shares it.
+ */
+export function getPrintPageKey(profileId: PrintProfileId, setId: string): string {
+  return `${profileId}:${setId}`
+}
+
+/**
+ * Every page to print, in order: profile by profile, each copy collated
+ * so it comes off the printer as a complete set list.
+ */
+export function buildPrintJob(
+  sets: SetItem[],
+  copies: PrintCopies
+): PrintJobPage[] {
+  const pages: PrintJobPage[] = []
+  for (const profile of PRINT_PROFILES) {
+    const count = copies[profile.id]
+    for (let copy = 1; copy <= count; copy++) {
+      sets.forEach((set, setIndex) => {
+        pages.push({
+          key: `${getPrintPageKey(profile.id, set.id)}:${copy}`,
+          profile,
+          set,
+          setIndex,
+          copy,
+          copies: count
+        })
+      })
+    }
+  }
+  return pages
+}
@@ -1,4 +1,5 @@
 import { LIMITS } from "../constants/limits";
+import { formatClockTime, parseClockTime } from "./utils";
 
 /**
  * Sanitize a text input by trimming whitespace and limiting length.
@@ -36,6 +37,89 @@ export function sanitizeSongKey(key: string | undefined): string | undefined {
   return sanitizeTextInput(key, LIMITS.MAX_SONG_KEY_LENGTH);
 }
 
+/**
+ * Sanitize free-text song notes.
+ * Returns undefined if empty.
+ */
+export function sanitizeSongNotes(notes: string | undefined): string | undefined {
+  return sanitizeTextInput(notes, LIMITS.MAX_SONG_NOTES_LENGTH);
+}
+
+/**
+ * Sanitize a song's lighting cue.
+ * Returns undefined if empty.
+ */
+export function sanitizeSongCue(cue: string | undefined): string | undefined {
+  return sanitizeTextInput(cue, LIMITS.MAX_SONG_CUE_LENGTH);
+}
+
+/**
+ * Sanitize a song tempo in beats per minute.
+ * Returns undefined if missing or not a number; otherwise rounds and clamps
+ * it to the tempo limits.
+ */
+export function sanitizeSongTempo(
+  tempo: number | undefined,
+): number | undefined {
+  if (typeof tempo !== "number" || !Number.isFinite(tempo) || tempo <= 0) {
+    return undefined;
+  }
+
+  return Math.min(
+    LIMITS.MAX_SONG_TEMPO_BPM,
+    Math.max(LIMITS.MIN_SONG_TEMPO_BPM, Math.round(tempo)),
+  );
+}
+
+/**
+ * Sanitize a length of time in whole seconds, capped at `max`.
+ * Returns undefined if missing, not a positive number, or out of range.
+ */
+function sanitizePositiveSeconds(
+  value: number | undefined,
+  max: number,
+): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return undefined;
+  }
+
+  const rounded = Math.round(value);
+  if (rounded <= 0) return undefined;
+  return Math.min(rounded, max);
+}
+
+/** Sanitize a song duration in seconds. */
+export function sanitizeSongDuration(
+  duration: number | undefined,
+): number | undefined {
+  return sanitizePositiveSeconds(duration, LIMITS.MAX_SONG_DURATION_SECS);
+}
+
+/** Sanitize a set's target length in seconds. */
+export function sanitizeSetTargetDuration(
+  duration: number | undefined,
+): number | undefined {
+  return sanitizePositiveSeconds(duration, LIMITS.MAX_SET_TARGET_DURATION_SECS);
+}
+
+/** Sanitize the break after a set, in seconds. */
+export function sanitizeSetInterval(
+  interval: number | undefined,
+): number | undefined {
+  return sanitizePositiveSeconds(interval, LIMITS.MAX_SET_INTERVAL_SECS);
+}
+
+/**
+ * Sanitize a clock time such as the show start time or curfew.
+ * Returns a zero-padded "HH:MM" string, or undefined if empty or invalid.
+ */
+export function sanitizeClockTime(
+  time: string | undefined,
+): string | undefined {
+  const seconds = parseClockTime(time);
+  return seconds === undefined ? undefined : formatClockTime(seconds);
+}
+
 /**
  * Sanitize a set name.
  * Returns undefined if empty (to use dynamic default "Set N").
@@ -62,17 +146,26 @@ export function sanitizeMetadata(metadata: {
   venue?: string;
   date?: string;
   actName?: string;
+  startTime?: string;
+  curfew?: string;
+  gigId?: string;
 }): {
   setListName: string;
   venue: string;
   date: string;
   actName: string;
+  startTime: string;
+  curfew: string;
+  gigId: string;
 } {
   return {
     setListName: sanitizeMetadataField(metadata.setListName) ?? "",
     venue: sanitizeMetadataField(metadata.venue) ?? "",
     date: sanitizeMetadataField(metadata.date) ?? "",
     actName: sanitizeMetadataField(metadata.actName) ?? "",
+    startTime: sanitizeClockTime(metadata.startTime) ?? "",
+    curfew: sanitizeClockTime(metadata.curfew) ?? "",
+    gigId: sanitizeMetadataField(metadata.gigId) ?? "",
   };
 }
 
@@ -1,6 +1,19 @@
-import type { StoreState, SetItem, Song, SetListMetadata } from '@/stores/store'
+import type { StoreState, SetItem, Song, SetListMetadata } from '@/stores/types'
 
-export const CURRENT_SCHEMA_VERSION = 1
+/**
+ * Schema history:
+ * - 1: legacy format (songs with title, key and encore marker flag)
+ * - 2: songs may carry an optional `duration` and sets an optional
+ *      `targetDuration`, both in seconds
+ * - 3: more optional fields, all safe to leave out:
+ *      - sets: `intervalAfter` (seconds of break after the set)
+ *      - metadata: `startTime` and `curfew` ("HH:MM"), and `gigId`
+ *        (the set list's gig log entry)
+ *      - songs: `isOptional`, `libraryId`, `tempo` (bpm), `cue`, `notes`,
+ *        `segueTo` (id of the song it runs into), `itemType` (changeover,
+ *        intro...) and `isSectionMarker` (a named divider; the title is its name)
+ */
+export const CURRENT_SCHEMA_VERSION = 3
 
 /**
  * Type guard to check if a value is a valid song object
@@ -77,14 +90,25 @@ function detectSchemaVersion(data: unknown): number {
 }
 
 /**
- * Migrate version 1 data to current schema
- * Version 1 is the legacy format without schemaVersion field
+ * Migrate version 1 data to version 2
+ * Version 1 is the legacy format, with or without a schemaVersion field
  */
 function migrateFromV1(data: Partial<StoreState>): Partial<StoreState> {
-  // Version 1 data structure is the same as current, just add schemaVersion
+  // Version 2 only adds optional duration fields, so v1 data is already valid
   return {
     ...data,
-    schemaVersion: CURRENT_SCHEMA_VERSION
+    schemaVersion: 2
+  }
+}
+
+/**
+ * Migrate version 2 data to version 3
+ */
+function migrateFromV2(data: Partial<StoreState>): Partial<StoreState> {
+  // Version 3 only adds optional fields, so v2 data is already valid
+  return {
+    ...data,
+    schemaVersion: 3
   }
 }
 
@@ -109,9 +133,12 @@ export function migrateToCurrentSchema(data: unknown): Partial<StoreState> | nul
   if (version === 1) {
     migratedData = migrateFromV1(data)
   }
+  if (version <= 2) {
+    migratedData = migrateFromV2(migratedData)
+  }
   // Future versions would be handled here:
-  // if (version === 2) {
-  //   migratedData = migrateFromV2(data)
+  // if (version <= 3) {
+  //   migratedData = migrateFromV3(migratedData)
   // }
   
   // Ensure the final data has the current schema version
@@ -0,0 +1,71 @@
+import type { ArchivedSetList } from '@/stores/types'
+import { normalizeSearchText } from './librarySearch'
+
+export type ArchiveSortKey = 'updated' | 'name' | 'date'
+
+function displayName(entry: ArchivedSetList): string {
+  return entry.state.metadata.setListName || 'Untitled'
+}
+
+/**
+ * Sort document library entries: most recently saved, by name, or by gig
+ * date (newest first, undated last). Ties fall back to name.
+ */
+export function sortArchivedSetLists(
+  entries: ArchivedSetList[],
+  sortBy: ArchiveSortKey = 'updated'
+): ArchivedSetList[] {
+  const byName = (a: ArchivedSetList, b: ArchivedSetList) =>
+    displayName(a).localeCompare(displayName(b), undefined, {
+      sensitivity: 'base'
+    })
+
+  return [...entries].sort((a, b) => {
+    if (sortBy === 'updated') {
+      return b.updatedAt - a.updatedAt || byName(a, b)
+    }
+    if (sortBy === 'date') {
+      const dateA = a.state.metadata.date
+      const dateB = b.state.metadata.date
+      if (dateA !== dateB) {
+        if (!dateA) return 1
+        if (!dateB) return -1
+        return dateB.localeCompare(dateA)
+      }
+    }
+    return byName(a, b)
+  })
+}
+
+/**
+ * Keep entries whose name, act, venue or date contain the query.
+ */
+export function filterArchivedSetLists(
+  entries: ArchivedSetList[],
+  query: string
+): ArchivedSetList[] {
+  const normalizedQuery = normalizeSearchText(query)
+  if (!normalizedQuery) return entries
+
+  return entries.filter(entry => {
+    const { setListName, actName, venue, date } = entry.state.metadata
+    return [setListName, actName, venue, date].some(field =>
+      normalizeSearchText(field).includes(normalizedQuery)
+    )
+  })
+}
+
+/**
+ * Name for a duplicated set list that doesn't clash with an existing one:
+ * "Summer Tour (copy)", then "Summer Tour (copy 2)" and so on.
+ */
+export function getCopyName(name: string, existingNames: string[]): string {
+  const baseName = (name || 'Untitled').replace(/ \(copy(?: \d+)?\)$/, '')
+  const taken = new Set(existingNames)
+
+  let candidate = `${baseName} (copy)`
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${baseName} (copy ${n})`
+  }
+  return candidate
+}
@@ -0,0 +1,291 @@
+import type { SetItem, Song } from '@/stores/types'
+import {
+  RUNNING_ORDER_ITEM_TYPES,
+  createEncoreMarker,
+  isEncoreMarkerSong,
+  isSectionMarkerSong
+} from '@/stores/encore'
+import { normalizeSearchText } from './librarySearch'
+import type { ImportedSet } from './plainTextImport'
+import { formatSongDuration, parseDuration } from './utils'
+
+export type CsvField =
+  | 'set'
+  | 'setName'
+  | 'position'
+  | 'type'
+  | 'title'
+  | 'key'
+  | 'duration'
+  | 'tempo'
+  | 'optional'
+  | 'encore'
+  | 'segueTo'
+  | 'notes'
+  | 'cue'
+  | 'libraryId'
+
+/** Which column (by index) holds each field; null when the file has none */
+export type CsvColumnMapping = Record<CsvField, number | null>
+
+/**
+ * Set list columns in export order, with the header written on export and
+ * other header names recognised on import.
+ */
+export const CSV_FIELDS: {
+  field: CsvField
+  header: string
+  aliases: string[]
+}[] = [
+  { field: 'set', header: 'Set', aliases: ['set number', 'set no'] },
+  { field: 'setName', header: 'Set Name', aliases: ['set title'] },
+  {
+    field: 'position',
+    header: 'Position',
+    aliases: ['pos', 'no', 'number', 'order', 'song number']
+  },
+  { field: 'type', header: 'Type', aliases: ['item type', 'kind'] },
+  {
+    field: 'title',
+    header: 'Title',
+    aliases: ['song', 'song title', 'song name', 'name', 'track']
+  },
+  { field: 'key', header: 'Key', aliases: ['song key'] },
+  { field: 'duration', header: 'Duration', aliases: ['length', 'time'] },
+  { field: 'tempo', header: 'Tempo', aliases: ['bpm'] },
+  { field: 'optional', header: 'Optional', aliases: [] },
+  { field: 'encore', header: 'Encore', aliases: [] },
+  { field: 'segueTo', header: 'Segue To', aliases: ['segue', 'segues into'] },
+  { field: 'notes', header: 'Notes', aliases: ['note', 'comments'] },
+  { field: 'cue', header: 'Cue', aliases: ['lighting cue', 'lights'] },
+  { field: 'libraryId', header: 'Library ID', aliases: [] }
+]
+
+/** The Type column's value for section dividers; songs leave it empty */
+const SECTION_TYPE = 'section'
+
+const TRUE_FLAG = /^(?:y|yes|true|1|x|✓|✔|optional|encore)$/i
+
+function parseFlag(value: string): boolean {
+  return TRUE_FLAG.test(value.trim())
+}
+
+function formatType(song: Song): string {
+  return isSectionMarkerSong(song) ? SECTION_TYPE : (song.itemType ?? '')
+}
+
+/** Section dividers and running-order items by type or label, e.g. "changeover" */
+function parseType(value: string): Pick<Song, 'isSectionMarker' | 'itemType'> {
+  const name = normalizeSearchText(value)
+  if (!name) return {}
+  if (name === SECTION_TYPE || name === 'section divider') {
+    return { isSectionMarker: true }
+  }
+  const item = RUNNING_ORDER_ITEM_TYPES.find(
+    ({ type, label }) =>
+      normalizeSearchText(type) === name || normalizeSearchText(label) === name
+  )
+  return item ? { itemType: item.type } : {}
+}
+
+/**
+ * The Encore column: "yes" for songs after a set's encore break, or the
+ * break's number when the set has several.
+ */
+function parseEncoreBreak(value: string): number {
+  const number = parseInt(value, 10)
+  if (number > 0) return number
+  return parseFlag(value) ? 1 : 0
+}
+
+/**
+ * Rows for a CSV export of the sets, header first. Songs after a set's
+ * encore marker are flagged as encore songs; the marker itself has no row.
+ * Section dividers and running-order items get rows marked in the Type
+ * column, and segues name the song they run into.
+ */
+export function setListToCsvRows(sets: SetItem[]): string[][] {
+  const rows = [CSV_FIELDS.map(column => column.header)]
+  const titles = new Map(
+    sets.flatMap(set => set.songs.map(song => [song.id, song.title]))
+  )
+
+  sets.forEach((set, setIndex) => {
+    const hasSeveralBreaks = set.songs.filter(isEncoreMarkerSong).length > 1
+    let encoreBreak = 0
+    let position = 0
+
+    set.songs.forEach(song => {
+      if (isEncoreMarkerSong(song)) {
+        encoreBreak++
+        return
+      }
+      position++
+
+      const values: Record<CsvField, string> = {
+        set: String(setIndex + 1),
+        setName: set.name ?? '',
+        position: String(position),
+        type: formatType(song),
+        title: song.title,
+        key: song.key ?? '',
+        duration: formatSongDuration(song.duration),
+        tempo: song.tempo ? String(song.tempo) : '',
+        optional: song.isOptional ? 'yes' : '',
+        encore:
+          encoreBreak === 0
+            ? ''
+            : hasSeveralBreaks
+              ? String(encoreBreak)
+              : 'yes',
+        segueTo: song.segueTo ? (titles.get(song.segueTo) ?? '') : '',
+        notes: song.notes ?? '',
+        cue: song.cue ?? '',
+        libraryId: song.libraryId ?? ''
+      }
+      rows.push(CSV_FIELDS.map(column => values[column.field]))
+    })
+  })
+
+  return rows
+}
+
+/**
+ * Match header names to fields, ignoring case and punctuation.
+ * Columns that aren't recognised are left unmapped.
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalizedHeaders = headers.map(normalizeSearchText)
+  const used = new Set<number>()
+
+  const mapping = {} as CsvColumnMapping
+  CSV_FIELDS.forEach(({ field, header, aliases }) => {
+    const names = [header, ...aliases].map(normalizeSearchText)
+    const index = normalizedHeaders.findIndex(
+      (name, i) => !used.has(i) && names.includes(name)
+    )
+    mapping[field] = index === -1 ? null : index
+    if (index !== -1) used.add(index)
+  })
+  return mapping
+}
+
+interface ImportedRow {
+  song: Song
+  position: number
+  order: number
+  /** 0 before the encores, then 1, 2... for each encore break */
+  encoreBreak: number
+  /** Title of the song this one segues into */
+  segueTitle: string
+}
+
+/**
+ * Build sets from CSV data rows (without the header) using a column mapping.
+ *
+ * Rows are grouped by the set column (all in one set when it isn't mapped)
+ * and ordered by the position column, falling back to file order. A set
+ * value that isn't a number is used as the set name. An encore marker goes
+ * before the first row of each encore break. Segues are matched to the song
+ * with that title, preferring a later song in the same set.
+ *
+ * The result still needs `normalizeSets` (via `replaceSets`) for sanitising
+ * and metrics.
+ */
+export function csvRowsToSets(
+  rows: string[][],
+  mapping: CsvColumnMapping
+): ImportedSet[] {
+  const cell = (row: string[], field: CsvField): string => {
+    const index = mapping[field]
+    return index === null ? '' : (row[index] ?? '').trim()
+  }
+
+  const groups = new Map<string, { name?: string; rows: ImportedRow[] }>()
+
+  rows.forEach((row, order) => {
+    const title = cell(row, 'title')
+    if (!title) return
+
+    const setValue = cell(row, 'set') || '1'
+    let group = groups.get(setValue)
+    if (!group) {
+      group = { rows: [] }
+      groups.set(setValue, group)
+    }
+
+    const setName =
+      cell(row, 'setName') || (Number.isNaN(Number(setValue)) ? setValue : '')
+    if (!group.name && setName) group.name = setName
+
+    const position = parseInt(cell(row, 'position'), 10)
+    const tempo = parseInt(cell(row, 'tempo'), 10)
+    group.rows.push({
+      song: {
+        id: crypto.randomUUID(),
+        title,
+        key: cell(row, 'key') || undefined,
+        duration: parseDuration(cell(row, 'duration')),
+        tempo: Number.isNaN(tempo) ? undefined : tempo,
+        cue: cell(row, 'cue') || undefined,
+        notes: cell(row, 'notes') || undefined,
+        isOptional: parseFlag(cell(row, 'optional')) || undefined,
+        libraryId: cell(row, 'libraryId') || undefined,
+        ...parseType(cell(row, 'type'))
+      },
+      position: Number.isNaN(position) ? Infinity : position,
+      order,
+      encoreBreak: parseEncoreBreak(cell(row, 'encore')),
+      segueTitle: cell(row, 'segueTo')
+    })
+  })
+
+  // Numbered sets go in number order, however the spreadsheet was sorted
+  const setValues = [...groups.keys()]
+  if (setValues.every(value => !Number.isNaN(Number(value)))) {
+    setValues.sort((a, b) => Number(a) - Number(b))
+  }
+
+  const sortedGroups = setValues.map(value => {
+    const group = groups.get(value) as { name?: string; rows: ImportedRow[] }
+    const sorted = [...group.rows].sort(
+      (a, b) => a.position - b.position || a.order - b.order
+    )
+    return { name: group.name, rows: sorted }
+  })
+
+  linkSegues(sortedGroups.map(group => group.rows))
+
+  return sortedGroups.map(({ name, rows: sorted }) => {
+    const songs: Song[] = []
+    let encoreBreak = 0
+    sorted.forEach(row => {
+      for (; encoreBreak < row.encoreBreak; encoreBreak++) {
+        songs.push(createEncoreMarker())
+      }
+      songs.push(row.song)
+    })
+    return { name, songs }
+  })
+}
+
+/**
+ * Point each segue at the song named in its Segue To cell: a later song in
+ * the same set if there is one, else any song with that title.
+ */
+function linkSegues(sets: ImportedRow[][]): void {
+  const matches = (row: ImportedRow, title: string) =>
+    normalizeSearchText(row.song.title) === title
+
+  sets.forEach(rows => {
+    rows.forEach((row, index) => {
+      const title = normalizeSearchText(row.segueTitle)
+      if (!title) return
+      const target =
+        rows.slice(index + 1).find(other => matches(other, title)) ??
+        rows.find(other => other !== row && matches(other, title)) ??
+        sets.flat().find(other => other !== row && matches(other, title))
+      row.song.segueTo = target?.song.id
+    })
+  })
+}
@@ -0,0 +1,115 @@
+import type { SetItem, SetListMetadata, Song } from '@/stores/types'
+import {
+  getSetDividers,
+  isMarkerSong,
+  isRunningOrderItem
+} from '@/stores/encore'
+import { formatLongDate } from './utils'
+
+export type TextExportFormat = 'text' | 'markdown'
+
+export interface TextExportSet {
+  set: SetItem
+  /** Name as shown in the editor, e.g. from `getSetDisplayName` */
+  name: string
+}
+
+/** Characters with meaning in Markdown inline text */
+const MARKDOWN_SPECIAL = /[\\`*_{}[\]<>#|~]/g
+
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIAL, char => `\\${char}`)
+}
+
+function escapeFor(format: TextExportFormat): (text: string) => string {
+  return format === 'markdown' ? escapeMarkdown : text => text
+}
+
+function formatSong(
+  song: Song,
+  number: number,
+  format: TextExportFormat
+): string {
+  const escape = escapeFor(format)
+  let label = escape(song.title)
+  if (song.key) label += ` (${escape(song.key)})`
+  // Optional songs print in brackets, like the preview
+  if (song.isOptional) label = `${escape('[')}${label}${escape(']')}`
+  return `${number}. ${label}`
+}
+
+/** Running-order items are listed, unnumbered, between the songs */
+function formatItem(song: Song, format: TextExportFormat): string {
+  const label = escapeFor(format)(song.title)
+  return format === 'markdown' ? `- *${label}*` : `- ${label}`
+}
+
+/**
+ * Lines for the metadata header: set list name, then act, venue and date.
+ */
+function formatHeader(
+  metadata: SetListMetadata,
+  format: TextExportFormat
+): string[] {
+  const escape = escapeFor(format)
+  const lines: string[] = []
+
+  if (metadata.setListName) {
+    const name = escape(metadata.setListName)
+    lines.push(format === 'markdown' ? `# ${name}` : name)
+  }
+
+  const details = [metadata.actName, metadata.venue]
+    .filter(Boolean)
+    .map(escape)
+  if (metadata.date) details.push(formatLongDate(metadata.date))
+  if (details.length) lines.push(details.join(' · '))
+
+  return lines
+}
+
+/**
+ * Render the set list for pasting into a chat or email, or as Markdown.
+ *
+ * Mirrors the print preview: a metadata header, each set under its name
+ * with songs numbered from 1, running-order items unnumbered between them,
+ * and an "encores" divider (or "encore 1", "encore 2"...) before each encore,
+ * and one with its name before each section.
+ */
+export function formatSetListText(
+  metadata: SetListMetadata,
+  sets: TextExportSet[],
+  format: TextExportFormat = 'text'
+): string {
+  const blocks: string[] = []
+
+  const header = formatHeader(metadata, format)
+  if (header.length) blocks.push(header.join('\n'))
+
+  sets.forEach(({ set, name }) => {
+    const lines = [format === 'markdown' ? `## ${escapeMarkdown(name)}` : name]
+    if (format === 'text') lines.push('-'.repeat(name.length))
+
+    const dividers = getSetDividers(set)
+
+    let number = 0
+    set.songs.forEach(song => {
+      if (isMarkerSong(song)) return
+      dividers.get(song.id)?.forEach(divider => {
+        const text = `— ${escapeFor(format)(divider)} —`
+        // Blank lines keep Markdown from running the divider into the list
+        lines.push(format === 'markdown' ? `\n*${text}*\n` : text)
+      })
+      if (isRunningOrderItem(song)) {
+        lines.push(formatItem(song, format))
+        return
+      }
+      number++
+      lines.push(formatSong(song, number, format))
+    })
+
+    blocks.push(lines.join('\n'))
+  })
+
+  return blocks.join('\n\n') + '\n'
+}
@@ -1,4 +1,4 @@
-import type { SetListMetadata } from '@/stores/store'
+import type { RunningOrderItemType, SetListMetadata } from '@/stores/types'
 
 /**
  * Comparable song data - excludes computed/derived fields
@@ -7,7 +7,16 @@ export interface ComparableSong {
   id: string
   title: string
   key: string | undefined
+  duration: number | undefined
+  tempo: number | undefined
+  cue: string | undefined
+  notes: string | undefined
+  segueTo: string | undefined
+  isOptional: boolean | undefined
   isEncoreMarker: boolean | undefined
+  isSectionMarker: boolean | undefined
+  itemType: RunningOrderItemType | undefined
+  libraryId: string | undefined
 }
 
 /**
@@ -16,6 +25,8 @@ export interface ComparableSong {
 export interface ComparableSet {
   id: string
   name?: string
+  targetDuration?: number
+  intervalAfter?: number
   songs: ComparableSong[]
 }
 
@@ -42,7 +53,10 @@ export function isDataEqual(
     a.metadata.setListName !== b.metadata.setListName ||
     a.metadata.venue !== b.metadata.venue ||
     a.metadata.date !== b.metadata.date ||
-    a.metadata.actName !== b.metadata.actName
+    a.metadata.actName !== b.metadata.actName ||
+    a.metadata.startTime !== b.metadata.startTime ||
+    a.metadata.curfew !== b.metadata.curfew ||
+    a.metadata.gigId !== b.metadata.gigId
   ) {
     return false
   }
@@ -57,7 +71,14 @@ export function isDataEqual(
     const setA = a.sets[i]
     const setB = b.sets[i]
 
-    if (setA.id !== setB.id || setA.name !== setB.name) {
+    if (!setA || !setB) return false
+
+    if (
+      setA.id !== setB.id ||
+      setA.name !== setB.name ||
+      setA.targetDuration !== setB.targetDuration ||
+      setA.intervalAfter !== setB.intervalAfter
+    ) {
       return false
     }
 
@@ -71,11 +92,22 @@ export function isDataEqual(
       const songA = setA.songs[j]
       const songB = setB.songs[j]
 
+      if (!songA || !songB) return false
+
       if (
         songA.id !== songB.id ||
         songA.title !== songB.title ||
         songA.key !== songB.key ||
-        songA.isEncoreMarker !== songB.isEncoreMarker
+        songA.duration !== songB.duration ||
+        songA.tempo !== songB.tempo ||
+        songA.cue !== songB.cue ||
+        songA.notes !== songB.notes ||
+        songA.segueTo !== songB.segueTo ||
+        songA.isOptional !== songB.isOptional ||
+        songA.isEncoreMarker !== songB.isEncoreMarker ||
+        songA.isSectionMarker !== songB.isSectionMarker ||
+        songA.itemType !== songB.itemType ||
+        songA.libraryId !== songB.libraryId
       ) {
         return false
       }
@@ -1,4 +1,5 @@
 import { BASE_FONT_SIZE_PX, DEFAULT_FONT_FAMILY } from "../constants";
+import { formatKeySymbols } from "./musicalKey";
 
 export { BASE_FONT_SIZE_PX };
 
@@ -14,9 +15,19 @@ function getContext(): CanvasRenderingContext2D | null {
   return cachedContext;
 }
 
-export function formatSongLabel(title: string, key?: string): string {
+/**
+ * A song as printed: "Title (B♭m)". Keys are written with real flat and
+ * sharp signs so widths match what the preview shows.
+ */
+export function formatSongLabel(
+  title: string,
+  key?: string,
+  lowercaseMinor = false,
+): string {
   const normalizedTitle = title?.trim().length ? title.trim() : "Untitled Song";
-  const normalizedKey = key?.trim();
+  const normalizedKey = key?.trim()
+    ? formatKeySymbols(key, lowercaseMinor)
+    : "";
   return normalizedKey
     ? `${normalizedTitle} (${normalizedKey})`
     : normalizedTitle;
@@ -28,3 +28,104 @@ export function formatDuration(durationSecs: number): string {
 
 	return formattedDuration.trim();
 }
+
+/**
+ * Format a song length as a clock-style string ("3:45", or "1:02:05" past an hour).
+ */
+export function formatSongDuration(durationSecs: number | undefined): string {
+	if (!durationSecs || durationSecs <= 0) {
+		return "";
+	}
+
+	const hours = Math.floor(durationSecs / 3600);
+	const minutes = Math.floor((durationSecs % 3600) / 60);
+	const seconds = durationSecs % 60;
+	const paddedSeconds = seconds.toString().padStart(2, "0");
+
+	if (hours > 0) {
+		return `${hours}:${minutes.toString().padStart(2, "0")}:${paddedSeconds}`;
+	}
+	return `${minutes}:${paddedSeconds}`;
+}
+
+/**
+ * Format a song tempo in beats per minute for an input field ("120").
+ */
+export function formatSongTempo(tempo: number | undefined): string {
+	return tempo && tempo > 0 ? String(tempo) : "";
+}
+
+/**
+ * Parse a user-entered duration into seconds.
+ * Accepts "m:ss", "h:mm:ss" or a bare number of minutes ("4").
+ * Returns undefined for empty or unparseable input.
+ */
+export function parseDuration(input: string | undefined): number | undefined {
+	const trimmed = input?.trim();
+	if (!trimmed) return undefined;
+
+	if (/^\d+$/.test(trimmed)) {
+		const minutes = parseInt(trimmed, 10);
+		return minutes > 0 ? minutes * 60 : undefined;
+	}
+
+	const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+	if (!match) return undefined;
+
+	const hours = match[1] ? parseInt(match[1], 10) : 0;
+	const minutes = parseInt(match[2] ?? "0", 10);
+	const seconds = parseInt(match[3] ?? "0", 10);
+
+	// With an hours part the minutes must be a real clock value too
+	if (seconds >= 60 || (match[1] && minutes >= 60)) return undefined;
+
+	const total = hours * 3600 + minutes * 60 + seconds;
+	return total > 0 ? total : undefined;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Parse a 24-hour clock time ("20:30", "8:05") into seconds since midnight.
+ * Returns undefined for empty or invalid times.
+ */
+export function parseClockTime(input: string | undefined): number | undefined {
+	const match = input?.trim().match(/^(\d{1,2}):(\d{2})$/);
+	if (!match) return undefined;
+
+	const hours = parseInt(match[1] ?? "0", 10);
+	const minutes = parseInt(match[2] ?? "0", 10);
+	if (hours > 23 || minutes > 59) return undefined;
+
+	return hours * 3600 + minutes * 60;
+}
+
+/**
+ * Format seconds since midnight as a 24-hour clock time ("21:15").
+ * Times past midnight wrap around, so a late set still reads "00:10".
+ * Seconds are rounded to the nearest minute.
+ */
+export function formatClockTime(secondsSinceMidnight: number): string {
+	const totalMinutes = Math.round(secondsSinceMidnight / 60);
+	const wrapped =
+		((totalMinutes * 60) % SECONDS_PER_DAY + SECONDS_PER_DAY) %
+		SECONDS_PER_DAY;
+	const hours = Math.floor(wrapped / 3600);
+	const minutes = Math.floor((wrapped % 3600) / 60);
+
+	return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Present a "YYYY-MM-DD" date in a long, locale-aware format
+ * ("Saturday, June 1, 2026") so printed and shared set lists read naturally.
+ */
+export function formatLongDate(dateStr: string | undefined): string {
+	if (!dateStr) return "";
+	return new Date(dateStr).toLocaleDateString(undefined, {
+		weekday: "long",
+		year: "numeric",
+		month: "long",
+		day: "numeric",
+	});
+}
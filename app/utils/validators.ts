@@ -3,7 +3,8 @@ import type {
   Song,
   SetItem,
   StoreState
-} from '@/stores/store'
+} from '@/stores/types'
+import { isRunningOrderItemType } from '@/stores/encore'
 
 /**
  * Validation result
@@ -28,11 +29,47 @@ function isValidSong(song: unknown): song is Song {
   // key is optional but must be string if present
   if (s.key !== undefined && typeof s.key !== 'string') return false
 
+  // duration is optional but must be a number of seconds if present
+  if (s.duration !== undefined && typeof s.duration !== 'number') return false
+
+  // tempo is optional but must be a number of beats per minute if present
+  if (s.tempo !== undefined && typeof s.tempo !== 'number') return false
+
+  // cue is optional but must be string if present
+  if (s.cue !== undefined && typeof s.cue !== 'string') return false
+
+  // notes is optional but must be string if present
+  if (s.notes !== undefined && typeof s.notes !== 'string') return false
+
+  // segueTo is optional but must be a song id if present
+  if (s.segueTo !== undefined && typeof s.segueTo !== 'string') return false
+
+  // isOptional is optional but must be boolean if present
+  if (s.isOptional !== undefined && typeof s.isOptional !== 'boolean') {
+    return false
+  }
+
   // isEncoreMarker is optional but must be boolean if present
   if (s.isEncoreMarker !== undefined && typeof s.isEncoreMarker !== 'boolean') {
     return false
   }
 
+  // isSectionMarker is optional but must be boolean if present
+  if (
+    s.isSectionMarker !== undefined &&
+    typeof s.isSectionMarker !== 'boolean'
+  ) {
+    return false
+  }
+
+  // itemType is optional but must be a known item type if present
+  if (s.itemType !== undefined && !isRunningOrderItemType(s.itemType)) {
+    return false
+  }
+
+  // libraryId is optional but must be string if present
+  if (s.libraryId !== undefined && typeof s.libraryId !== 'string') return false
+
   return true
 }
 
@@ -50,6 +87,16 @@ function isValidSet(set: unknown): set is SetItem {
   // name is optional but must be string if present
   if (s.name !== undefined && typeof s.name !== 'string') return false
 
+  // targetDuration is optional but must be a number of seconds if present
+  if (s.targetDuration !== undefined && typeof s.targetDuration !== 'number') {
+    return false
+  }
+
+  // intervalAfter is optional but must be a number of seconds if present
+  if (s.intervalAfter !== undefined && typeof s.intervalAfter !== 'number') {
+    return false
+  }
+
   // songs must be an array
   if (!Array.isArray(s.songs)) return false
 
@@ -73,6 +120,11 @@ function isValidMetadata(metadata: unknown): metadata is SetListMetadata {
   if (typeof m.date !== 'string') return false
   if (typeof m.actName !== 'string') return false
 
+  // startTime, curfew and gigId were added later, so older files may not have them
+  if (m.startTime !== undefined && typeof m.startTime !== 'string') return false
+  if (m.curfew !== undefined && typeof m.curfew !== 'string') return false
+  if (m.gigId !== undefined && typeof m.gigId !== 'string') return false
+
   return true
 }
 